@@ -1,13 +1,101 @@
 import * as pulumi from "@pulumi/pulumi";
 import * as random from "@pulumi/random";
-import * as command from "@pulumi/command";
+import * as fs from "fs";
+import { CertificateSubject, Keystore, readKeystoreCertificate } from "./keystore";
+import { projectPath } from "./paths";
 
-export interface AndroidSigningKeyConfig {
+// ============================================================================
+// Key settings
+// ============================================================================
+
+export const ANDROID_KEY_ALGORITHMS = ["RSA", "EC"];
+
+// EC key sizes are the curves P-256, P-384 and P-521
+export const ANDROID_KEY_SIZES: Record<string, number[]> = {
+  RSA: [2048, 3072, 4096],
+  EC: [256, 384, 521],
+};
+
+/** Certificate subject; omitted fields keep the values keys were always generated with */
+export interface AndroidDistinguishedName {
+  commonName?: string; // default projectBaseName
+  organizationalUnit?: string; // default organization
+  organization?: string; // default organization
+  locality?: string; // default "Unknown"
+  state?: string; // default "Unknown"
+  country?: string; // two-letter code, default "US"
+}
+
+export interface AndroidKeySettings {
+  storeType?: "PKCS12" | "JKS"; // default PKCS12, what keytool has written since Java 9
+  keyAlgorithm?: "RSA" | "EC"; // default RSA
+  validity?: number; // days, default 10000
+  keySize?: number; // default 2048 (RSA) or 256 (EC)
+  distinguishedName?: AndroidDistinguishedName;
+}
+
+/** An existing keystore, e.g. the upload key of an app already on Google Play */
+export interface AndroidKeystoreImportConfig {
+  /** Relative to infrastructure/pulumi */
+  keystorePath: string;
+  keyAlias: string;
+  /** Environment whose key this is; required (and only allowed) with perEnvironment */
+  environment?: string;
+}
+
+/** The `androidSigning` deploy option */
+export interface AndroidSigningConfig extends AndroidKeySettings {
+  /** A distinct upload key per environment instead of one shared key */
+  perEnvironment?: boolean;
+  /** An extra shared key for debug and internal builds, kept apart from the upload key */
+  internalKey?: boolean;
+  import?: AndroidKeystoreImportConfig;
+}
+
+function resolveDistinguishedName(
+  name: AndroidDistinguishedName,
+  organization: string,
+  commonName: string
+): CertificateSubject {
+  return {
+    commonName: name.commonName ?? commonName,
+    organizationalUnit: name.organizationalUnit ?? organization,
+    organization: name.organization ?? organization,
+    locality: name.locality ?? "Unknown",
+    state: name.state ?? "Unknown",
+    country: name.country ?? "US",
+  };
+}
+
+/** RFC 2253 subject in the order keytool prints it */
+export function androidDistinguishedName(
+  name: AndroidDistinguishedName,
+  organization: string,
+  commonName: string
+): string {
+  const subject = resolveDistinguishedName(name, organization, commonName);
+  return [
+    ["CN", subject.commonName],
+    ["OU", subject.organizationalUnit],
+    ["O", subject.organization],
+    ["L", subject.locality],
+    ["ST", subject.state],
+    ["C", subject.country],
+  ]
+    .map(([attribute, value]) => `${attribute}=${value.replace(/[\\,+"<>;]/g, "\\$&")}`)
+    .join(", ");
+}
+
+// ============================================================================
+// Generated keys
+// ============================================================================
+
+export interface AndroidSigningKeyConfig extends AndroidKeySettings {
   keyAlias: string;
   organization: string;
   commonName: string;
-  validity?: number; // days, default 10000
-  keySize?: number; // default 2048
+  /** Keystore keytool generated for this alias before, adopted instead of a new key */
+  previousKeystoreBase64?: pulumi.Output<string | undefined>;
 }
 
 export interface AndroidSigningKeyOutputs {
@@ -15,12 +103,25 @@ export interface AndroidSigningKeyOutputs {
   keystorePassword: pulumi.Output<string>;
   keyPassword: pulumi.Output<string>;
   keyAlias: string;
+  /** Certificate fingerprints as keytool and the Play Console print them (AB:CD:...) */
+  sha1Fingerprint: pulumi.Output<string>;
+  sha256Fingerprint: pulumi.Output<string>;
+}
+
+// ============================================================================
+// Certificate fingerprints
+// ============================================================================
+
+/** Lowercase hex without colons, the format Firebase stores fingerprints in */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/:/g, "").toLowerCase();
 }
 
 export function generateAndroidSigningKey(
   config: AndroidSigningKeyConfig
 ): AndroidSigningKeyOutputs {
-  const { keyAlias, organization, commonName, validity = 10000, keySize = 2048 } = config;
+  const { keyAlias, organization, commonName, storeType = "PKCS12", validity = 10000, keyAlgorithm = "RSA" } = config;
+  const keySize = config.keySize ?? ANDROID_KEY_SIZES[keyAlgorithm][0];
 
   // ============================================================================
   // Generate random passwords
@@ -42,53 +143,25 @@ export function generateAndroidSigningKey(
   });
 
   // ============================================================================
-  // Generate keystore using keytool
-  // ============================================================================
-
-  const keystoreFilePath = `/tmp/${keyAlias}.jks`;
-
-  const generateKeystore = new command.local.Command(
-    `${keyAlias}-generate-keystore`,
-    {
-      create: pulumi.interpolate`keytool -genkey -v \
-        -keystore ${keystoreFilePath} \
-        -alias ${keyAlias} \
-        -keyalg RSA \
-        -keysize ${keySize} \
-        -validity ${validity} \
-        -storepass "${keystorePassword.result}" \
-        -keypass "${keyPassword.result}" \
-        -dname "CN=${commonName}, OU=${organization}, O=${organization}, L=Unknown, ST=Unknown, C=US" \
-        && echo "Keystore generated successfully"`,
-      triggers: [keystorePassword.result, keyPassword.result],
-    }
-  );
-
-  // ============================================================================
-  // Convert keystore to base64 for GitHub Secrets
-  // ============================================================================
-
-  const keystoreBase64 = new command.local.Command(
-    `${keyAlias}-keystore-base64`,
-    {
-      create: pulumi.interpolate`cat ${keystoreFilePath} | base64`,
-    },
-    {
-      dependsOn: [generateKeystore],
-    }
-  );
-
-  // ============================================================================
-  // Clean up (optional - comment out if you want to keep local keystore)
+  // Generate keystore in memory (replaced only when a setting changes)
   // ============================================================================
 
-  const cleanup = new command.local.Command(
-    `${keyAlias}-cleanup`,
+  // Protected: a replaced upload key can't sign updates to apps already on Google Play
+  const keystore = new Keystore(
+    `${keyAlias}-keystore`,
     {
-      create: pulumi.interpolate`rm -f ${keystoreFilePath} && echo "Cleanup complete"`,
+      storeType,
+      keyAlias,
+      keyAlgorithm,
+      keySize,
+      validity,
+      subject: resolveDistinguishedName(config.distinguishedName ?? {}, organization, commonName),
+      keystorePassword: keystorePassword.result,
+      keyPassword: keyPassword.result,
+      previousKeystoreBase64: config.previousKeystoreBase64,
     },
     {
-      dependsOn: [keystoreBase64],
+      protect: true,
     }
   );
 
@@ -97,9 +170,131 @@ export function generateAndroidSigningKey(
   // ============================================================================
 
   return {
-    keystoreBase64: keystoreBase64.stdout.apply((b64) => b64.trim()),
+    keystoreBase64: keystore.keystoreBase64,
     keystorePassword: keystorePassword.result,
     keyPassword: keyPassword.result,
     keyAlias: keyAlias,
+    sha1Fingerprint: keystore.sha1Fingerprint,
+    sha256Fingerprint: keystore.sha256Fingerprint,
+  };
+}
+
+// ============================================================================
+// Imported keys
+// ============================================================================
+
+/**
+ * Reads an imported key's certificate out of its keystore in memory, like generated
+ * keystores are built. The fingerprints are public, so they aren't kept secret.
+ */
+function certificateFingerprints(
+  keystoreBase64: pulumi.Output<string>,
+  keyAlias: string,
+  keystorePassword: pulumi.Output<string>
+): Pick<AndroidSigningKeyOutputs, "sha1Fingerprint" | "sha256Fingerprint"> {
+  const certificate = pulumi
+    .all([keystoreBase64, keystorePassword])
+    .apply(([keystore, password]) => readKeystoreCertificate(Buffer.from(keystore, "base64"), keyAlias, password));
+
+  return {
+    sha1Fingerprint: pulumi.unsecret(certificate.apply((cert) => cert.fingerprint)),
+    sha256Fingerprint: pulumi.unsecret(certificate.apply((cert) => cert.fingerprint256)),
+  };
+}
+
+export interface ImportedAndroidSigningKeyConfig {
+  keystorePath: string;
+  keyAlias: string;
+  keystorePassword: pulumi.Output<string>;
+  keyPassword: pulumi.Output<string>;
+}
+
+/**
+ * Publishes an existing keystore as it is. Nothing is created, so removing the import
+ * later generates a new key rather than touching the file.
+ */
+export function importAndroidSigningKey(
+  config: ImportedAndroidSigningKeyConfig
+): AndroidSigningKeyOutputs {
+  const keystoreBase64 = pulumi.secret(fs.readFileSync(projectPath(config.keystorePath)).toString("base64"));
+
+  return {
+    keystoreBase64,
+    keystorePassword: config.keystorePassword,
+    keyPassword: config.keyPassword,
+    keyAlias: config.keyAlias,
+    ...certificateFingerprints(keystoreBase64, config.keyAlias, config.keystorePassword),
+  };
+}
+
+// ============================================================================
+// Keys per environment and role
+// ============================================================================
+
+// Keystores keytool generated before they were built in memory, by key alias; written by
+// the CLI from the stack state while a stack still has them, not a user setting
+export const PREVIOUS_KEYSTORES_CONFIG_KEY = "previousAndroidKeystores";
+
+export interface AndroidSigningKeysConfig {
+  name: string;
+  organization: string;
+  environments: string[];
+  signing: AndroidSigningConfig;
+  /** Passwords of the imported keystore */
+  keystorePassword?: pulumi.Output<string>;
+  keyPassword?: pulumi.Output<string>; // defaults to the keystore password
+  /** See PREVIOUS_KEYSTORES_CONFIG_KEY */
+  previousKeystores?: pulumi.Output<Record<string, string>>;
+}
+
+export interface AndroidSigningKeys {
+  /** Whether each environment has its own upload key */
+  perEnvironment: boolean;
+  /** Upload key per environment; the same key for all unless perEnvironment */
+  upload: Record<string, AndroidSigningKeyOutputs>;
+  internal?: AndroidSigningKeyOutputs;
+}
+
+export function setupAndroidSigningKeys(config: AndroidSigningKeysConfig): AndroidSigningKeys {
+  const { name, organization, environments, signing } = config;
+  const { perEnvironment = false, internalKey = false, import: imported, ...settings } = signing;
+
+  const importKey = (): AndroidSigningKeyOutputs => {
+    if (!config.keystorePassword) {
+      throw new Error("Importing an Android keystore needs its password (androidKeystorePassword)");
+    }
+    return importAndroidSigningKey({
+      keystorePath: imported!.keystorePath,
+      keyAlias: imported!.keyAlias,
+      keystorePassword: config.keystorePassword,
+      keyPassword: config.keyPassword ?? config.keystorePassword,
+    });
+  };
+  const generateKey = (keyAlias: string): AndroidSigningKeyOutputs =>
+    generateAndroidSigningKey({
+      ...settings,
+      keyAlias,
+      organization,
+      commonName: name,
+      previousKeystoreBase64: config.previousKeystores?.apply((keystores) => keystores[keyAlias]),
+    });
+
+  const upload: Record<string, AndroidSigningKeyOutputs> = {};
+  if (perEnvironment) {
+    for (const env of environments) {
+      upload[env] = imported?.environment === env ? importKey() : generateKey(`${name}-${env}-key`);
+    }
+  } else {
+    // Same resource names as before per-environment keys existed
+    const shared = imported ? importKey() : generateKey(`${name}-key`);
+    for (const env of environments) {
+      upload[env] = shared;
+    }
+  }
+
+  return {
+    perEnvironment,
+    upload,
+    internal: internalKey ? generateKey(`${name}-internal-key`) : undefined,
   };
 }
@@ -0,0 +1,342 @@
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import * as command from "@pulumi/command";
+
+// ============================================================================
+// Authentication options
+// ============================================================================
+
+export const MFA_STATES = ["ENABLED", "MANDATORY", "DISABLED"];
+export const MFA_FACTORS = ["phone", "totp"];
+export const BLOCKING_FUNCTION_EVENTS = ["beforeCreate", "beforeSignIn"];
+export const FORWARDED_CREDENTIALS = ["idToken", "accessToken", "refreshToken"];
+
+// Identity Platform limits
+export const MIN_PASSWORD_LENGTH = 6;
+export const MAX_PASSWORD_LENGTH = 4096;
+export const MAX_TOTP_ADJACENT_INTERVALS = 10;
+
+export interface AuthPasswordPolicy {
+  /** Reject non-compliant passwords; otherwise they are only reported to the client */
+  enforce?: boolean;
+  /** Make users with a non-compliant password change it at sign-in */
+  forceUpgradeOnSignin?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  requireUppercase?: boolean;
+  requireLowercase?: boolean;
+  requireNumeric?: boolean;
+  requireNonAlphanumeric?: boolean;
+}
+
+export interface AuthConfig {
+  /** Email sign-in; email link (passwordless) when passwordRequired is false */
+  email?: { enabled: boolean; passwordRequired?: boolean };
+  anonymous?: { enabled: boolean; autoDelete?: boolean };
+  /** Test numbers map a phone number to its fixed verification code */
+  phone?: { enabled: boolean; testPhoneNumbers?: Record<string, string> };
+  /** OAuth client ID; the secret is the authGoogleClientSecret setting */
+  google?: { enabled: boolean; clientId: string };
+  /** Sign in with Apple; the .p8 key is the authApplePrivateKey setting */
+  apple?: { enabled: boolean; serviceId: string; teamId: string; keyId: string; bundleIds?: string[] };
+  /** In addition to localhost, <project>.firebaseapp.com and <project>.web.app */
+  authorizedDomains?: string[];
+  passwordPolicy?: AuthPasswordPolicy;
+  /** Don't reveal whether an email address has an account */
+  emailEnumerationProtection?: boolean;
+  /** Function names (deployed in the functions region) or full URLs per event */
+  blockingFunctions?: {
+    beforeCreate?: string;
+    beforeSignIn?: string;
+    forwardCredentials?: string[];
+  };
+  mfa?: { state: "ENABLED" | "MANDATORY" | "DISABLED"; factors?: string[]; totpAdjacentIntervals?: number };
+}
+
+/** OAuth and Apple key secrets, shared by all environments */
+export interface AuthSecrets {
+  googleClientSecret?: pulumi.Output<string>;
+  applePrivateKey?: pulumi.Output<string>;
+}
+
+// ============================================================================
+// Identity Platform
+// ============================================================================
+
+export interface AuthSetupConfig {
+  projectName: string;
+  project: pulumi.Output<string>;
+  functionsRegion: string;
+  iosBundleId: string;
+  auth: AuthConfig;
+  secrets: AuthSecrets;
+  provider: gcp.Provider;
+  dependsOn: pulumi.Resource[];
+}
+
+export interface AuthOutputs {
+  /** Sign-in methods that are turned on */
+  signInMethods: string[];
+  authorizedDomains: pulumi.Output<string[]>;
+}
+
+const IDENTITY_TOOLKIT_API = "https://identitytoolkit.googleapis.com/admin/v2";
+
+// `call METHOD URL` sends stdin as the JSON body and prints the HTTP status; `check WHAT`
+// fails the command unless the last status was a success
+const IDENTITY_TOOLKIT_CALL = `call() {
+  curl --silent --show-error --output /dev/null --write-out '%{http_code}' -X "$1" \\
+    -H "Authorization: Bearer $ACCESS_TOKEN" \\
+    -H "x-goog-user-project: $PROJECT" -H "Content-Type: application/json" \\
+    --data-binary @- "$2"
+}
+check() {
+  case "$STATUS" in
+    2??) ;;
+    *) echo "Identity Toolkit API returned HTTP $STATUS for $1" >&2; exit 1 ;;
+  esac
+}
+`;
+
+/**
+ * Calls the Identity Toolkit admin API for settings the provider doesn't cover yet, with
+ * an access token of the environment's provider credentials. The request body is passed
+ * on stdin, so secrets in it never show up in a process listing.
+ *
+ * The token is new on every deploy, so these (idempotent) calls are repeated each time.
+ */
+function identityToolkitRequest(
+  resourceName: string,
+  project: pulumi.Output<string>,
+  provider: gcp.Provider,
+  request: { apply: pulumi.Output<string>; delete?: pulumi.Output<string>; body: pulumi.Input<string> },
+  opts: pulumi.CustomResourceOptions
+): command.local.Command {
+  const apply = pulumi.interpolate`${IDENTITY_TOOLKIT_CALL}${request.apply}`;
+  const accessToken = gcp.organizations.getClientConfigOutput({ provider }).accessToken;
+
+  return new command.local.Command(
+    resourceName,
+    {
+      create: apply,
+      update: apply,
+      delete: request.delete && pulumi.interpolate`${IDENTITY_TOOLKIT_CALL}${request.delete}`,
+      stdin: request.body,
+      environment: { PROJECT: project, ACCESS_TOKEN: pulumi.secret(accessToken) },
+    },
+    opts
+  );
+}
+
+export function setupAuth(config: AuthSetupConfig): AuthOutputs {
+  const { projectName, project, functionsRegion, iosBundleId, auth, secrets, provider, dependsOn } = config;
+  const signInMethods: string[] = [];
+
+  const authorizedDomains = project.apply((projectId) => [
+    ...new Set([
+      "localhost",
+      `${projectId}.firebaseapp.com`,
+      `${projectId}.web.app`,
+      ...(auth.authorizedDomains ?? []),
+    ]),
+  ]);
+
+  // Blocking functions are referenced by name (gen 1 style URL, which gen 2 functions
+  // also answer on) or by full URL
+  const functionUri = (target: string) =>
+    target.startsWith("https://")
+      ? pulumi.output(target)
+      : pulumi.interpolate`https://${functionsRegion}-${project}.cloudfunctions.net/${target}`;
+  const blocking = auth.blockingFunctions ?? {};
+  const triggers = BLOCKING_FUNCTION_EVENTS.filter((event) => blocking[event as "beforeCreate"]).map((event) => ({
+    eventType: event,
+    functionUri: functionUri(blocking[event as "beforeCreate"]!),
+  }));
+  const forwarded = blocking.forwardCredentials ?? [];
+
+  const mfa = auth.mfa;
+  const factors = mfa?.factors ?? ["phone"];
+
+  // Upgrades the project to Identity Platform; requires billing
+  const identityPlatform = new gcp.identityplatform.Config(
+    `${projectName}-auth`,
+    {
+      project,
+      authorizedDomains,
+      autodeleteAnonymousUsers: auth.anonymous?.autoDelete === true,
+      signIn: {
+        email: {
+          enabled: auth.email?.enabled === true,
+          passwordRequired: auth.email?.passwordRequired ?? true,
+        },
+        anonymous: { enabled: auth.anonymous?.enabled === true },
+        phoneNumber: {
+          enabled: auth.phone?.enabled === true,
+          testPhoneNumbers: auth.phone?.testPhoneNumbers,
+        },
+      },
+      blockingFunctions: triggers.length > 0
+        ? {
+            triggers,
+            forwardInboundCredentials: {
+              idToken: forwarded.includes("idToken"),
+              accessToken: forwarded.includes("accessToken"),
+              refreshToken: forwarded.includes("refreshToken"),
+            },
+          }
+        : undefined,
+      mfa: mfa
+        ? {
+            state: mfa.state,
+            enabledProviders: factors.includes("phone") ? ["PHONE_SMS"] : [],
+            providerConfigs: factors.includes("totp")
+              ? [{ state: mfa.state, totpProviderConfig: { adjacentIntervals: mfa.totpAdjacentIntervals ?? 5 } }]
+              : [],
+          }
+        : undefined,
+    },
+    {
+      provider,
+      dependsOn,
+    }
+  );
+
+  if (auth.email?.enabled) {
+    signInMethods.push(auth.email.passwordRequired === false ? "email link" : "email/password");
+  }
+  if (auth.anonymous?.enabled) {
+    signInMethods.push("anonymous");
+  }
+  if (auth.phone?.enabled) {
+    signInMethods.push("phone");
+  }
+
+  // ============================================================================
+  // Google and Apple
+  // ============================================================================
+
+  if (auth.google) {
+    if (!secrets.googleClientSecret) {
+      throw new Error("Google sign-in needs the OAuth client secret (authGoogleClientSecret)");
+    }
+    new gcp.identityplatform.DefaultSupportedIdpConfig(
+      `${projectName}-auth-google`,
+      {
+        project,
+        idpId: "google.com",
+        enabled: auth.google.enabled,
+        clientId: auth.google.clientId,
+        clientSecret: secrets.googleClientSecret,
+      },
+      {
+        provider,
+        dependsOn: [identityPlatform],
+      }
+    );
+    if (auth.google.enabled) {
+      signInMethods.push("Google");
+    }
+  }
+
+  // The provider has no appleSignInConfig yet, so Apple goes through the REST API
+  if (auth.apple) {
+    if (!secrets.applePrivateKey) {
+      throw new Error("Sign in with Apple needs the key from the Apple developer account (authApplePrivateKey)");
+    }
+    const apple = auth.apple;
+    const idpConfigs = pulumi.interpolate`${IDENTITY_TOOLKIT_API}/projects/${project}/defaultSupportedIdpConfigs`;
+    const body = pulumi.secret(
+      secrets.applePrivateKey.apply((privateKey) =>
+        JSON.stringify({
+          enabled: apple.enabled,
+          clientId: apple.serviceId,
+          appleSignInConfig: {
+            bundleIds: apple.bundleIds ?? [iosBundleId],
+            codeFlowConfig: { teamId: apple.teamId, keyId: apple.keyId, privateKey },
+          },
+        })
+      )
+    );
+    // PATCH updates an existing configuration; POST creates it only when PATCH finds nothing
+    const upsert = pulumi.interpolate`BODY=$(cat)
+STATUS=$(printf '%s' "$BODY" | call PATCH '${idpConfigs}/apple.com?updateMask=enabled,clientId,appleSignInConfig')
+if [ "$STATUS" = 404 ]; then
+  STATUS=$(printf '%s' "$BODY" | call POST '${idpConfigs}?idpId=apple.com')
+fi
+check apple.com`;
+    // A delete runs with the token stored by the last deploy, which has usually expired by
+    // then; the gcloud account running the deploy is the fallback
+    const remove = pulumi.interpolate`STATUS=$(call DELETE '${idpConfigs}/apple.com' < /dev/null)
+if [ "$STATUS" = 401 ] && command -v gcloud > /dev/null; then
+  ACCESS_TOKEN=$(gcloud auth print-access-token)
+  STATUS=$(call DELETE '${idpConfigs}/apple.com' < /dev/null)
+fi
+[ "$STATUS" = 404 ] || check apple.com`;
+    identityToolkitRequest(
+      `${projectName}-auth-apple`,
+      project,
+      provider,
+      {
+        apply: upsert,
+        delete: remove,
+        body,
+      },
+      {
+        dependsOn: [identityPlatform],
+      }
+    );
+    if (apple.enabled) {
+      signInMethods.push("Apple");
+    }
+  }
+
+  // ============================================================================
+  // Password policy and email enumeration protection
+  // ============================================================================
+
+  // Also not in the provider yet; removing them from the config leaves the last values
+  if (auth.passwordPolicy || auth.emailEnumerationProtection !== undefined) {
+    const policy = auth.passwordPolicy;
+    const updateMask = [
+      ...(policy ? ["passwordPolicyConfig"] : []),
+      ...(auth.emailEnumerationProtection !== undefined ? ["emailPrivacyConfig"] : []),
+    ].join(",");
+    const body = JSON.stringify({
+      passwordPolicyConfig: policy && {
+        passwordPolicyEnforcementState: policy.enforce === false ? "OFF" : "ENFORCE",
+        forceUpgradeOnSignin: policy.forceUpgradeOnSignin === true,
+        passwordPolicyVersions: [
+          {
+            customStrengthOptions: {
+              minPasswordLength: policy.minLength ?? MIN_PASSWORD_LENGTH,
+              maxPasswordLength: policy.maxLength ?? MAX_PASSWORD_LENGTH,
+              containsUppercaseCharacter: policy.requireUppercase === true,
+              containsLowercaseCharacter: policy.requireLowercase === true,
+              containsNumericCharacter: policy.requireNumeric === true,
+              containsNonAlphanumericCharacter: policy.requireNonAlphanumeric === true,
+            },
+          },
+        ],
+      },
+      emailPrivacyConfig: auth.emailEnumerationProtection !== undefined
+        ? { enableImprovedEmailPrivacy: auth.emailEnumerationProtection }
+        : undefined,
+    });
+    const patch = pulumi.interpolate`STATUS=$(call PATCH '${IDENTITY_TOOLKIT_API}/projects/${project}/config?updateMask=${updateMask}')
+check config`;
+    identityToolkitRequest(
+      `${projectName}-auth-policies`,
+      project,
+      provider,
+      {
+        apply: patch,
+        body,
+      },
+      {
+        dependsOn: [identityPlatform],
+      }
+    );
+  }
+
+  return { signInMethods, authorizedDomains };
+}
@@ -9,40 +9,89 @@
  */
 
 import * as pulumi from '@pulumi/pulumi';
-import { LocalWorkspace, Stack } from '@pulumi/pulumi/automation';
+import { LocalWorkspace, LocalWorkspaceOptions, Stack } from '@pulumi/pulumi/automation';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as readline from 'readline';
+import { parseArgs } from 'util';
+import {
+  DeployOptions,
+  environmentNames,
+  resolveEnvironments,
+  validateDeployOptions,
+  formatValidationIssues,
+} from './config';
+import {
+  flutterConfigFilesFromOutputs,
+  flutterConfigFileStatus,
+  writeFlutterConfigFile,
+} from './flutter';
+import {
+  ChangeGroupingOptions,
+  ResourceChangeCollector,
+  printResourceChanges,
+  printKeystoreReplacements,
+  printProtectedViolations,
+} from './diff';
+import { DriftCollector, printDrift, printLastUpdate } from './drift';
+import {
+  printStackResources,
+  readDefaultBucketLocations,
+  readPreviousKeystores,
+  readStackResources,
+  unprotectResources,
+  writeDefaultBucketLocations,
+  writePreviousKeystores,
+} from './state';
+import { RulesTestResult, printRulesTestResults, rulesTestTargets, runRulesTests } from './rules-test';
+import { MAX_BACKUP_RETENTION_DAYS } from './firestore';
+import { DEFAULT_STORAGE_CORS, storageLocationForFirestoreRegion } from './storage';
+import { BLOCKING_FUNCTION_EVENTS, MIN_PASSWORD_LENGTH } from './auth';
+import {
+  DEFAULT_DELETE_AFTER_DAYS,
+  DEFAULT_FUNCTIONS_REPOSITORY,
+  DEFAULT_KEEP_VERSIONS,
+  FUNCTIONS_RUNTIME_BASE_ROLES,
+  FUNCTIONS_RUNTIME_SERVICE_ACCOUNT,
+  functionsRuntimeRoles,
+} from './functions';
+import { DEFAULT_KEY_OVERLAP_DAYS, DEFAULT_SERVICE_ACCOUNTS, githubAttributeCondition, nextKeyRotation } from './iam';
+import { planKeyRotation, printKeyRotationPlan, readKeyRotationState, writeKeyRotationState } from './key-rotation';
+import { DEFAULT_GITHUB_NAME_TEMPLATE, githubEnvironmentName } from './github';
+import { DEFAULT_GITLAB_URL, DEFAULT_SECRET_SINKS } from './sinks';
+import { ANDROID_KEY_SIZES, PREVIOUS_KEYSTORES_CONFIG_KEY, androidDistinguishedName } from './android';
+import {
+  EXIT_DRIFT_DETECTED,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  emitEvent,
+  enableJsonOutput,
+  engineEventHandler,
+  engineOutput,
+  isJsonOutput,
+  maskOutputs,
+  setResultData,
+  setResultStack,
+} from './output';
 
-interface DeployOptions {
-  projectBaseName: string;
-  organization: string;
-  environments: string[];
-  githubRepo: string;
-  androidPackageName: string;
-  iosBundleId: string;
-  gcpBillingAccount?: string;
-  gcpOrganizationId?: string;
-  githubToken?: string;
-  firestoreRegion?: string;
-  firebaseFunctionsRegion?: string;
-  enableAuth?: boolean;
-  enableFirestore?: boolean;
-  enableFunctions?: boolean;
-  enableStorage?: boolean;
-  enableHosting?: boolean;
-}
+// The config keys are namespaced with the project name from Pulumi.yaml
+const PULUMI_PROJECT = 'firebase-infrastructure';
+
+// Stack name placeholders: {user} (from `pulumi whoami`) and {projectBaseName}
+const DEFAULT_CLOUD_STACK_NAME_TEMPLATE = '{user}/{projectBaseName}-infra';
+const DEFAULT_SELF_MANAGED_STACK_NAME_TEMPLATE = '{projectBaseName}-infra';
 
 async function configureStack(stack: Stack, options: DeployOptions): Promise<void> {
   console.log('⚙️  Configuring stack...');
 
   // Build complete config object
-  // The config keys are namespaced with the project name from Pulumi.yaml
-  const projectName = 'firebase-infrastructure';
+  const projectName = PULUMI_PROJECT;
 
   const allConfig: Record<string, { value: string; secret?: boolean }> = {
     [`${projectName}:projectBaseName`]: { value: options.projectBaseName },
     [`${projectName}:organization`]: { value: options.organization },
-    // Don't set environments via setAllConfig - it expects string but schema wants array
+    // Don't set environments via setAllConfig - it expects string but environments is a
+    // list of names and/or per-environment override objects
     // We'll write it directly to the stack config file below
     [`${projectName}:githubRepo`]: { value: options.githubRepo },
     [`${projectName}:androidPackageName`]: { value: options.androidPackageName },
@@ -65,18 +114,62 @@ async function configureStack(stack: Stack, options: DeployOptions): Promise<voi
     allConfig[`${projectName}:gcpOrganizationId`] = { value: options.gcpOrganizationId };
   }
 
+  if (options.firestoreRulesPath) {
+    allConfig[`${projectName}:firestoreRulesPath`] = { value: options.firestoreRulesPath };
+  }
+
+  if (options.storageRulesPath) {
+    allConfig[`${projectName}:storageRulesPath`] = { value: options.storageRulesPath };
+  }
+
+  if (options.firestoreIndexesPath) {
+    allConfig[`${projectName}:firestoreIndexesPath`] = { value: options.firestoreIndexesPath };
+  }
+
+  if (options.githubNameTemplate) {
+    allConfig[`${projectName}:githubNameTemplate`] = { value: options.githubNameTemplate };
+  }
+
   if (options.githubToken) {
     allConfig[`${projectName}:githubToken`] = { value: options.githubToken, secret: true };
   }
 
+  if (options.gitlabToken) {
+    allConfig[`${projectName}:gitlabToken`] = { value: options.gitlabToken, secret: true };
+  }
+
+  if (options.secretsFilePassphrase) {
+    allConfig[`${projectName}:secretsFilePassphrase`] = { value: options.secretsFilePassphrase, secret: true };
+  }
+
+  if (options.androidKeystorePassword) {
+    allConfig[`${projectName}:androidKeystorePassword`] = { value: options.androidKeystorePassword, secret: true };
+  }
+
+  if (options.androidKeyPassword) {
+    allConfig[`${projectName}:androidKeyPassword`] = { value: options.androidKeyPassword, secret: true };
+  }
+
+  if (options.authGoogleClientSecret) {
+    allConfig[`${projectName}:authGoogleClientSecret`] = { value: options.authGoogleClientSecret, secret: true };
+  }
+
+  if (options.authApplePrivateKey) {
+    allConfig[`${projectName}:authApplePrivateKey`] = { value: options.authApplePrivateKey, secret: true };
+  }
+
+  if (options.functionsSecretValues) {
+    allConfig[`${projectName}:functionsSecretValues`] = { value: JSON.stringify(options.functionsSecretValues), secret: true };
+  }
+
   // Set all config at once
   await stack.setAllConfig(allConfig);
 
-  // Now manually write the environments array to the stack config file as proper YAML array
+  // Now manually write the environments list to the stack config file as proper YAML
   const yaml = require('js-yaml');
-  // Stack name contains '/' so we need to find the actual config file
-  // It's stored in the .pulumi directory or as Pulumi.{simplename}.yaml
-  const simpleStackName = stack.name.includes('/') ? stack.name.split('/')[1] : stack.name;
+  // Stack name may be qualified (user/stack or org/project/stack) so we need to find the
+  // actual config file, which is stored as Pulumi.{simplename}.yaml
+  const simpleStackName = stack.name.split('/').pop();
   const stackConfigFile = path.join(stack.workspace.workDir, `Pulumi.${simpleStackName}.yaml`);
 
   console.log(`   └─ Writing to: ${stackConfigFile}`);
@@ -93,9 +186,18 @@ async function configureStack(stack: Stack, options: DeployOptions): Promise<voi
     const configYaml = fs.readFileSync(stackConfigFile, 'utf8');
     const configData: any = yaml.load(configYaml) || { config: {} };
 
-    // Set environments as actual array (not string)
+    // Set environments as actual array (not string), including any override objects
     configData.config[`${projectName}:environments`] = options.environments;
 
+    // Same for the other structured (list / object) settings
+    for (const key of ['auth', 'functions', 'firestoreTtlFields', 'firestoreBackups', 'storage', 'iam', 'workloadIdentity', 'keyRotation', 'githubEnvironments', 'secretSinks', 'androidSigning', 'androidCertificateFingerprints', 'iosSigning'] as const) {
+      if (options[key]) {
+        configData.config[`${projectName}:${key}`] = options[key];
+      } else {
+        delete configData.config[`${projectName}:${key}`];
+      }
+    }
+
     // Write back
     fs.writeFileSync(stackConfigFile, yaml.dump(configData, { indent: 2 }));
     console.log('   └─ Environments array written as YAML array');
@@ -107,82 +209,487 @@ async function configureStack(stack: Stack, options: DeployOptions): Promise<voi
   console.log('✅ Stack configured');
 }
 
-async function deploy(options: DeployOptions): Promise<void> {
-  const baseStackName = `${options.projectBaseName}-infra`;
-  const workDir = path.join(__dirname);
+/**
+ * Workspace options for the backend and secrets provider from the deploy config. Without
+ * a backendUrl the backend from `pulumi login` (or PULUMI_BACKEND_URL) is used.
+ */
+function workspaceOptions(options: Partial<DeployOptions> = {}): LocalWorkspaceOptions {
+  const envVars: Record<string, string> = {};
+
+  if (options.backendUrl) {
+    envVars.PULUMI_BACKEND_URL = options.backendUrl;
+  }
+
+  if (options.secretsPassphraseFile) {
+    envVars.PULUMI_CONFIG_PASSPHRASE_FILE = path.resolve(options.secretsPassphraseFile);
+  }
+
+  return {
+    workDir: path.join(__dirname),
+    envVars,
+    secretsProvider: options.secretsProvider,
+  };
+}
+
+/**
+ * Pulumi Cloud (and self-hosted Pulumi Cloud) backends are reached over HTTP(S); file://,
+ * s3://, gs:// and azblob:// are self-managed state stores.
+ */
+function isSelfManagedBackend(url: string | undefined): boolean {
+  return url !== undefined && !/^https?:\/\//.test(url);
+}
+
+async function openStack(options: DeployOptions): Promise<Stack> {
+  const wsOptions = workspaceOptions(options);
+  const workDir = wsOptions.workDir!;
 
-  console.log(`\n🚀 Starting deployment for stack: ${baseStackName}\n`);
   console.log('🔍 Detecting Pulumi backend...');
 
+  const workspace = await LocalWorkspace.create(wsOptions);
+  let pulumiUser = '';
+  let backendUrl: string | undefined;
   try {
-    // Get current Pulumi user to construct proper stack name
-    const { execSync } = require('child_process');
-    let pulumiUser = '';
-    try {
-      pulumiUser = execSync('pulumi whoami', { encoding: 'utf-8' }).trim();
-      console.log(`   └─ Logged in as: ${pulumiUser}`);
-    } catch (err) {
-      console.error('❌ Not logged into Pulumi. Please run: pulumi login');
-      process.exit(1);
+    const whoAmI = await workspace.whoAmI();
+    pulumiUser = whoAmI.user;
+    backendUrl = options.backendUrl ?? whoAmI.url;
+    console.log(`   └─ Logged in as: ${pulumiUser}`);
+    console.log(`   └─ Backend: ${backendUrl ?? 'unknown'}`);
+  } catch (err) {
+    console.error('❌ Not logged into Pulumi. Please run: pulumi login (or set backendUrl in the config)');
+    process.exit(1);
+  }
+
+  const selfManaged = isSelfManagedBackend(backendUrl);
+  const usesPassphrase = options.secretsProvider === 'passphrase' || (!options.secretsProvider && selfManaged);
+  if (
+    usesPassphrase &&
+    !options.secretsPassphraseFile &&
+    process.env.PULUMI_CONFIG_PASSPHRASE === undefined &&
+    process.env.PULUMI_CONFIG_PASSPHRASE_FILE === undefined
+  ) {
+    console.error('❌ The passphrase secrets provider needs secretsPassphraseFile in the config,');
+    console.error('   or PULUMI_CONFIG_PASSPHRASE / PULUMI_CONFIG_PASSPHRASE_FILE in the environment.');
+    process.exit(1);
+  }
+
+  // Self-managed backends have no per-user namespace, so the default there is one
+  // shared stack per project
+  const template = options.stackNameTemplate
+    ?? (selfManaged ? DEFAULT_SELF_MANAGED_STACK_NAME_TEMPLATE : DEFAULT_CLOUD_STACK_NAME_TEMPLATE);
+  const stackName = template
+    .split('{user}').join(pulumiUser)
+    .split('{projectBaseName}').join(options.projectBaseName);
+  console.log(`   └─ Full stack name: ${stackName}\n`);
+
+  // Create or select stack using the working directory (where Pulumi.yaml exists)
+  const stack = await LocalWorkspace.createOrSelectStack({
+    stackName,
+    workDir,
+  }, wsOptions);
+
+  console.log(`✅ Stack ready: ${stackName}`);
+  setResultStack(stackName);
+
+  // Configure stack
+  await configureStack(stack, options);
+
+  return stack;
+}
+
+async function printStackConfiguration(stack: Stack): Promise<void> {
+  console.log('\n📋 Stack Configuration:');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  const config = await stack.getAllConfig();
+  for (const [key, value] of Object.entries(config)) {
+    if (value.secret) {
+      console.log(`  🔐 ${key}: [secret]`);
+    } else {
+      console.log(`  ⚙️  ${key}: ${value.value}`);
     }
+  }
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
 
-    // Construct full stack name with user/org
-    const stackName = `${pulumiUser}/${baseStackName}`;
-    console.log(`   └─ Full stack name: ${stackName}\n`);
+function changeGrouping(options: DeployOptions): ChangeGroupingOptions {
+  return {
+    projectBaseName: options.projectBaseName,
+    environments: environmentNames(options),
+  };
+}
 
-    // Create or select stack using the working directory (where Pulumi.yaml exists)
-    const stack = await LocalWorkspace.createOrSelectStack({
-      stackName,
-      workDir,
-    });
+/**
+ * Runs `pulumi preview` and collects the per-resource changes from the engine events.
+ */
+async function previewChanges(stack: Stack, options: DeployOptions): Promise<ResourceChangeCollector> {
+  console.log('🔎 Computing changes (pulumi preview)...\n');
 
-    console.log(`✅ Stack ready: ${stackName}`);
+  const grouping = changeGrouping(options);
+  const collector = new ResourceChangeCollector(grouping);
 
-    // Configure stack
-    await configureStack(stack, options);
+  await stack.preview({
+    onEvent: engineEventHandler('preview', grouping, collector.onEvent),
+  });
 
-    // Show current configuration
-    console.log('\n📋 Stack Configuration:');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    const config = await stack.getAllConfig();
-    for (const [key, value] of Object.entries(config)) {
-      if (value.secret) {
-        console.log(`  🔐 ${key}: [secret]`);
-      } else {
-        console.log(`  ⚙️  ${key}: ${value.value}`);
-      }
+  printResourceChanges(collector.all, grouping.environments);
+  printKeystoreReplacements(collector.keystoreReplacements);
+  printProtectedViolations(collector.protectedViolations);
+
+  setResultData({
+    changes: collector.all,
+    protectedViolations: collector.protectedViolations.map(c => c.urn),
+    keystoreReplacements: collector.keystoreReplacements.map(c => c.urn),
+  });
+
+  return collector;
+}
+
+async function prompt(question: string): Promise<string> {
+  // Keep stdout clean for JSON events
+  const output = isJsonOutput() ? process.stderr : process.stdout;
+  const rl = readline.createInterface({ input: process.stdin, output });
+  try {
+    return await new Promise<string>(resolve => rl.question(question, resolve));
+  } finally {
+    rl.close();
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const answer = await prompt(question);
+  return answer.trim().toLowerCase() === 'yes';
+}
+
+/**
+ * Hands keystores generated with keytool, which the program no longer creates, to their
+ * new Keystore resources so upgrading keeps the existing upload keys.
+ */
+async function adoptPreviousKeystores(stack: Stack): Promise<void> {
+  const { keystores, unreadable } = await readPreviousKeystores(stack);
+  await writePreviousKeystores(stack, PULUMI_PROJECT, keystores);
+
+  const aliases = Object.keys(keystores);
+  if (aliases.length > 0) {
+    console.log(`🔑 Adopting keystores generated with keytool: ${aliases.join(', ')}\n`);
+  }
+  for (const alias of unreadable) {
+    console.log(`🚨 The keytool keystore of ${alias} is encrypted in the state and can't be adopted.`);
+    console.log('   Deploying would replace it with a new key. Copy it into the stack config first:');
+    console.log(`   pulumi config set --secret --path '${PREVIOUS_KEYSTORES_CONFIG_KEY}.${alias}' <base64 keystore>\n`);
+  }
+  setResultData({ adoptedKeystores: aliases, unreadableKeystores: unreadable });
+}
+
+/**
+ * Default buckets that already exist keep their location; new ones follow firestoreRegion.
+ */
+async function keepDefaultBucketLocations(stack: Stack): Promise<Record<string, string>> {
+  const locations = await readDefaultBucketLocations(stack);
+  await writeDefaultBucketLocations(stack, PULUMI_PROJECT, locations);
+  return locations;
+}
+
+async function preview(options: DeployOptions): Promise<void> {
+  console.log(`\n🔎 Previewing infrastructure for: ${options.projectBaseName}\n`);
+
+  try {
+    const stack = await openStack(options);
+    await adoptPreviousKeystores(stack);
+    await keepDefaultBucketLocations(stack);
+    await printStackConfiguration(stack);
+    await previewChanges(stack, options);
+  } catch (error) {
+    console.error('\n❌ Preview failed:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Runs `rulesTestCommand` against the emulators once per distinct set of rules files.
+ * Returns true when every run passed (or there is nothing to test).
+ */
+async function testRules(options: DeployOptions): Promise<boolean> {
+  if (!options.rulesTestCommand) {
+    console.log('ℹ️  No rulesTestCommand configured, skipping security rules tests\n');
+    return true;
+  }
+
+  const results: RulesTestResult[] = [];
+  for (const target of rulesTestTargets(resolveEnvironments(options))) {
+    console.log(`🧪 Testing security rules for: ${target.environments.join(', ')}`);
+    const result = await runRulesTests(target, options.rulesTestCommand);
+    emitEvent('rules-test', { ...result });
+    results.push(result);
+  }
+
+  printRulesTestResults(results);
+  setResultData({ rulesTests: results });
+  return results.every(r => r.passed);
+}
+
+interface DeployFlags {
+  yes: boolean;
+  skipRulesTests: boolean;
+  /** Environments whose service account key is rotated regardless of its age */
+  rotateKeys?: string[];
+}
+
+async function deploy(options: DeployOptions, flags: DeployFlags): Promise<void> {
+  const workDir = path.join(__dirname);
+
+  console.log(`\n🚀 Starting deployment for: ${options.projectBaseName}\n`);
+
+  // Set once the new rotation state is stored, so a failed deploy can put the old one back
+  let restoreKeyRotationState: (() => Promise<void>) | undefined;
+
+  try {
+    // Rules are tested before anything is previewed or deployed
+    if (flags.skipRulesTests) {
+      console.log('⚠️  Skipping security rules tests (--skip-rules-tests)\n');
+    } else if (!(await testRules(options))) {
+      console.error('❌ Security rules tests failed. Fix the rules or tests before deploying.');
+      process.exit(1);
     }
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+    const stack = await openStack(options);
+
+    // Rotation is decided here and stored in the stack config; the program only creates
+    // the keys the state lists
+    const previousKeyState = await readKeyRotationState(stack, PULUMI_PROJECT);
+    const keyRotation = planKeyRotation(resolveEnvironments(options), previousKeyState, new Date(), flags.rotateKeys);
+    await writeKeyRotationState(stack, PULUMI_PROJECT, keyRotation.state);
+    restoreKeyRotationState = () => writeKeyRotationState(stack, PULUMI_PROJECT, previousKeyState);
+    printKeyRotationPlan(keyRotation.changes);
+    setResultData({ keyRotation: keyRotation.changes });
+
+    await adoptPreviousKeystores(stack);
+    const defaultBucketLocations = await keepDefaultBucketLocations(stack);
+
+    // Show current configuration
+    await printStackConfiguration(stack);
 
     // Show what will be created
     console.log('🏗️  Infrastructure to be provisioned:');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    for (const env of options.environments) {
-      console.log(`\n  📦 Environment: ${env.toUpperCase()}`);
-      console.log(`     └─ 🔥 Firebase Project: ${options.projectBaseName}-${env}`);
-      console.log(`     └─ 🌍 GCP Project ID: ${options.projectBaseName}-${env}`);
-      console.log(`     └─ 🔐 Firebase Authentication`);
-      if (options.enableFirestore !== false) {
-        console.log(`     └─ 📊 Cloud Firestore (region: ${options.firestoreRegion})`);
+    for (const env of resolveEnvironments(options)) {
+      console.log(`\n  📦 Environment: ${env.environment.toUpperCase()}`);
+      console.log(`     └─ 🔥 Firebase Project: ${env.projectName}`);
+      console.log(`     └─ 🌍 GCP Project ID: ${env.projectName}`);
+      console.log(`     └─ 💳 Billing Account: ${env.billingAccount ? 'linked' : 'none'}`);
+      if (env.enableAuth) {
+        console.log(`     └─ 🔐 Firebase Authentication`);
+        const auth = env.auth;
+        if (Object.keys(auth).length > 0) {
+          const providers = [
+            auth.email?.enabled && (auth.email.passwordRequired === false ? 'email link' : 'email/password'),
+            auth.anonymous?.enabled && `anonymous${auth.anonymous.autoDelete ? ' (auto-deleted)' : ''}`,
+            auth.phone?.enabled && `phone${auth.phone.testPhoneNumbers ? ` (${Object.keys(auth.phone.testPhoneNumbers).length} test numbers)` : ''}`,
+            auth.google?.enabled && 'Google',
+            auth.apple?.enabled && 'Apple',
+          ].filter(Boolean);
+          console.log(`        └─ Sign-in: ${providers.length > 0 ? providers.join(', ') : 'none'}`);
+          console.log(`        └─ Authorized domains: localhost, Firebase domains${(auth.authorizedDomains ?? []).map((domain) => `, ${domain}`).join('')}`);
+          const policy = auth.passwordPolicy;
+          if (policy) {
+            const requirements = [
+              policy.requireUppercase && 'uppercase',
+              policy.requireLowercase && 'lowercase',
+              policy.requireNumeric && 'digit',
+              policy.requireNonAlphanumeric && 'symbol',
+            ].filter(Boolean);
+            const rules = [`${policy.minLength ?? MIN_PASSWORD_LENGTH}+ characters`, ...requirements].join(', ');
+            console.log(`        └─ Password policy: ${rules} (${policy.enforce === false ? 'not enforced' : 'enforced'})`);
+          }
+          if (auth.emailEnumerationProtection !== undefined) {
+            console.log(`        └─ Email enumeration protection: ${auth.emailEnumerationProtection ? 'on' : 'off'}`);
+          }
+          for (const event of BLOCKING_FUNCTION_EVENTS) {
+            const target = auth.blockingFunctions?.[event as 'beforeCreate'];
+            if (target) {
+              console.log(`        └─ Blocking function (${event}): ${target}`);
+            }
+          }
+          if (auth.mfa) {
+            console.log(`        └─ Multi-factor: ${auth.mfa.state.toLowerCase()} (${(auth.mfa.factors ?? ['phone']).join(', ')})`);
+          }
+        }
+      }
+      if (env.enableFirestore) {
+        console.log(`     └─ 📊 Cloud Firestore (region: ${env.firestoreRegion})`);
+        console.log(`        └─ Rules: ${env.firestoreRulesPath}`);
+        if (env.firestoreIndexesPath) {
+          console.log(`        └─ Indexes: ${env.firestoreIndexesPath}`);
+        }
+        for (const ttl of env.firestoreTtlFields) {
+          console.log(`        └─ TTL: ${ttl.collectionGroup}.${ttl.field}`);
+        }
+        const backups = env.firestoreBackups;
+        console.log(`        └─ Point-in-time recovery: ${backups.pointInTimeRecovery ? 'on' : 'off'}`);
+        console.log(`        └─ Delete protection: ${backups.deleteProtection ? 'on' : 'off'}`);
+        if (backups.dailyRetentionDays) {
+          console.log(`        └─ Daily backups (kept ${backups.dailyRetentionDays} days)`);
+        }
+        if (backups.weeklyBackupDay) {
+          console.log(`        └─ Weekly backups on ${backups.weeklyBackupDay} (kept ${backups.weeklyRetentionDays ?? MAX_BACKUP_RETENTION_DAYS} days)`);
+        }
+        if (backups.exportSchedule) {
+          const kept = backups.exportRetentionDays ? `, kept ${backups.exportRetentionDays} days` : '';
+          console.log(`        └─ Exports to gs://${env.projectName}-firestore-exports (${backups.exportSchedule} UTC${kept})`);
+        }
+      }
+      if (env.enableFunctions) {
+        const functions = env.functions;
+        console.log(`     └─ ⚡ Cloud Functions (region: ${env.functionsRegion})`);
+        console.log(`        └─ Images: projects/${env.projectName}/locations/${env.functionsRegion}/repositories/${functions.repository ?? DEFAULT_FUNCTIONS_REPOSITORY} (keep ${functions.keepVersions ?? DEFAULT_KEEP_VERSIONS} latest, delete others after ${functions.deleteAfterDays ?? DEFAULT_DELETE_AFTER_DAYS} days)`);
+        const roles = functionsRuntimeRoles(functions, env.enableFirestore, env.enableStorage).slice(FUNCTIONS_RUNTIME_BASE_ROLES.length);
+        console.log(`        └─ Runtime account: ${FUNCTIONS_RUNTIME_SERVICE_ACCOUNT}@${env.projectName}.iam.gserviceaccount.com (${['logging, metrics, tracing, events', ...roles].join(', ')})`);
+        for (const secretId of functions.secrets ?? []) {
+          console.log(`        └─ Secret: ${secretId}`);
+        }
+        console.log('        └─ Eventarc and Pub/Sub service agents');
+      }
+      if (env.enableStorage) {
+        const storage = env.storage;
+        const location = storage.location ?? defaultBucketLocations[env.projectName] ?? storageLocationForFirestoreRegion(env.firestoreRegion);
+        console.log(`     └─ 📁 Cloud Storage: ${env.projectName}.appspot.com (location: ${location})`);
+        console.log(`        └─ Rules: ${env.storageRulesPath}`);
+        const cors = storage.cors ?? DEFAULT_STORAGE_CORS;
+        for (const rule of cors) {
+          console.log(`        └─ CORS: ${rule.methods.join(', ')} from ${rule.origins.join(', ')}`);
+        }
+        console.log(`        └─ Versioning: ${storage.versioning ? 'on' : 'off'}`);
+        for (const rule of storage.lifecycleRules ?? []) {
+          const action = rule.action === 'Delete' ? 'delete' : `move to ${rule.storageClass}`;
+          const scope = rule.prefixes ? ` under ${rule.prefixes.join(', ')}` : '';
+          console.log(`        └─ Lifecycle: ${action} after ${rule.ageDays} days${scope}`);
+        }
+        if (storage.softDeleteRetentionDays !== undefined) {
+          console.log(`        └─ Soft delete: ${storage.softDeleteRetentionDays === 0 ? 'off' : `${storage.softDeleteRetentionDays} days`}`);
+        }
+        for (const bucket of storage.buckets ?? []) {
+          const firebase = bucket.firebase === false ? '' : ', Firebase rules';
+          console.log(`        └─ Bucket: ${env.projectName}-${bucket.name} (location: ${bucket.location ?? storage.location ?? storageLocationForFirestoreRegion(env.firestoreRegion)}${firebase})`);
+        }
+      }
+      if (env.enableHosting) {
+        console.log(`     └─ 🌐 Firebase Hosting`);
+      }
+      console.log(`     └─ 📱 Android App: ${env.androidPackageName}`);
+      console.log('        └─ Fingerprints: signing key certificates (SHA-1, SHA-256)');
+      for (const fingerprint of env.androidCertificateFingerprints) {
+        console.log(`        └─ Fingerprint: ${fingerprint}`);
+      }
+      console.log(`     └─ 🍎 iOS App: ${env.iosBundleId}`);
+      if (env.workloadIdentity.enabled) {
+        console.log(`     └─ 🪪 Workload Identity: ${githubAttributeCondition(env.githubRepo, env.workloadIdentity)}`);
+      } else {
+        const rotation = env.keyRotation;
+        const next = nextKeyRotation(keyRotation.state[env.environment], rotation);
+        const policy = next
+          ? ` (rotated every ${rotation.rotationDays} days, next after ${next.slice(0, 10)}, ${rotation.overlapDays ?? DEFAULT_KEY_OVERLAP_DAYS} days overlap)`
+          : '';
+        console.log(`     └─ 🔑 Service Account Key${policy}`);
+      }
+      for (const account of env.iam.serviceAccounts ?? DEFAULT_SERVICE_ACCOUNTS) {
+        console.log(`     └─ 🤖 Service Account: ${account.name} (${account.profiles.join(', ')})`);
+      }
+      for (const roleId of Object.keys(env.iam.customRoles ?? {})) {
+        console.log(`     └─ 🧩 Custom Role: ${roleId}`);
+      }
+      for (const binding of env.iam.bindings ?? []) {
+        console.log(`     └─ 👥 ${binding.member}: ${binding.roles.join(', ')}`);
+      }
+    }
+    const androidSigning = options.androidSigning ?? {};
+    const keyAlgorithm = androidSigning.keyAlgorithm ?? 'RSA';
+    const generatedKey = `${androidSigning.keySize ?? ANDROID_KEY_SIZES[keyAlgorithm][0]}-bit ${keyAlgorithm}, ${androidSigning.validity ?? 10000} days, ${androidSigning.storeType ?? 'PKCS12'}`;
+    const imported = androidSigning.import;
+    console.log('\n  🤖 Android Signing:');
+    if (androidSigning.perEnvironment) {
+      for (const env of environmentNames(options)) {
+        const source = imported?.environment === env ? `imported from ${imported.keystorePath}` : generatedKey;
+        console.log(`     └─ 🔏 Upload key (${env}): ${source}`);
+      }
+    } else {
+      console.log(`     └─ 🔏 Upload key (shared): ${imported ? `imported from ${imported.keystorePath}` : generatedKey}`);
+    }
+    if (androidSigning.internalKey) {
+      console.log(`     └─ 🧪 Internal key (shared): ${generatedKey}`);
+    }
+    if (androidSigning.distinguishedName) {
+      console.log(`     └─ 🪪 Subject: ${androidDistinguishedName(androidSigning.distinguishedName, options.organization, options.projectBaseName)}`);
+    }
+    const iosSigning = options.iosSigning;
+    if (iosSigning) {
+      console.log('\n  🍏 iOS Signing:');
+      console.log(`     └─ 🔏 Distribution key and CSR (${iosSigning.keySize ?? 2048}-bit RSA, ${iosSigning.email})`);
+      console.log(iosSigning.certificatePath
+        ? `     └─ 📜 Certificate: ${iosSigning.certificatePath} (exported as password-protected .p12)`
+        : '     └─ 📜 Certificate: not imported yet (upload the CSR to Apple, then set certificatePath)');
+      for (const [environment, profilePath] of Object.entries(iosSigning.provisioningProfiles ?? {})) {
+        console.log(`     └─ 📄 Provisioning profile (${environment}): ${profilePath}`);
+      }
+      if (iosSigning.appStoreConnectApiKeyPath) {
+        console.log(`     └─ 🔑 App Store Connect API key: ${iosSigning.appStoreConnectApiKeyPath}`);
       }
-      if (options.enableFunctions !== false) {
-        console.log(`     └─ ⚡ Cloud Functions (region: ${options.firebaseFunctionsRegion})`);
+    }
+    const sinks = options.secretSinks ?? DEFAULT_SECRET_SINKS;
+    if (sinks.some(sink => sink.type === 'github')) {
+      console.log('\n  🔗 GitHub Integration:');
+      console.log(`     └─ 📦 Repository: ${options.githubRepo}`);
+      console.log(`     └─ 🔑 Secrets: Firebase config, Service accounts, Android keys${iosSigning ? ', iOS signing' : ''}`);
+      console.log(`     └─ 📋 Variables: Project IDs and numbers, regions, service account emails, key alias`);
+      console.log(`     └─ 🏷️  Names: ${options.githubNameTemplate || DEFAULT_GITHUB_NAME_TEMPLATE}`);
+      for (const env of resolveEnvironments(options)) {
+        const githubEnvironment = githubEnvironmentName(env.environment, env.githubEnvironments);
+        if (!githubEnvironment) {
+          continue;
+        }
+        const settings = env.githubEnvironments;
+        const rules = [
+          ...[...(settings.reviewers ?? []), ...(settings.reviewerTeams ?? []).map(team => `team ${team}`)]
+            .map(reviewer => `reviewer ${reviewer}`),
+          ...(settings.waitTimerMinutes ? [`${settings.waitTimerMinutes} min wait`] : []),
+          ...(settings.branches ? [`branches ${settings.branches.join(', ')}`] : []),
+          ...(settings.protectedBranches ? ['protected branches'] : []),
+        ];
+        console.log(`     └─ 🛡️  Environment ${githubEnvironment} (${env.environment} secrets${rules.map(rule => `, ${rule}`).join('')})`);
       }
-      if (options.enableStorage !== false) {
-        console.log(`     └─ 📁 Cloud Storage`);
+    }
+    for (const sink of sinks) {
+      if (sink.type === 'gitlab') {
+        const scope = sink.environmentScoped ? ', environment-scoped' : '';
+        console.log(`\n  🦊 GitLab CI/CD Variables: ${sink.project} (${sink.url ?? DEFAULT_GITLAB_URL}${scope})`);
+      } else if (sink.type === 'secretManager') {
+        console.log('\n  🗝️  Secret Manager: secrets in each environment project');
+      } else if (sink.type === 'localFile') {
+        console.log(`\n  💾 Encrypted secrets file: ${sink.path}`);
       }
-      console.log(`     └─ 📱 Android App: ${options.androidPackageName}.${env}`);
-      console.log(`     └─ 🍎 iOS App: ${options.iosBundleId}.${env}`);
     }
-    console.log('\n  🔗 GitHub Integration:');
-    console.log(`     └─ 📦 Repository: ${options.githubRepo}`);
-    console.log(`     └─ 🔑 Secrets: Firebase config, Service accounts, Android keys`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
 
+    // Show exactly what will change
+    const plannedChanges = await previewChanges(stack, options);
+    if (plannedChanges.all.length === 0) {
+      console.log('🎉 Nothing to deploy.\n');
+      setResultData({ deployed: false });
+      return;
+    }
+
     // Confirm deployment
     console.log('⚠️  This will create real GCP resources and may incur costs.');
-    console.log('⏳ Starting deployment in 3 seconds... (Ctrl+C to cancel)\n');
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    if (flags.yes) {
+      console.log('   └─ Confirmed with --yes\n');
+    } else if (!process.stdin.isTTY) {
+      console.error('❌ Refusing to deploy without confirmation. Re-run with --yes in non-interactive environments.');
+      await restoreKeyRotationState();
+      process.exit(1);
+    } else if (!(await confirm("Type 'yes' to deploy these changes: "))) {
+      console.log('\n🛑 Deployment cancelled');
+      await restoreKeyRotationState();
+      setResultData({ deployed: false, cancelled: true });
+      return;
+    }
 
     // Deploy
     console.log('🚀 STARTING DEPLOYMENT');
@@ -190,7 +697,8 @@ async function deploy(options: DeployOptions): Promise<void> {
     console.log('📝 This may take 5-10 minutes. Live progress below:\n');
 
     const upResult = await stack.up({
-      onOutput: (msg) => process.stdout.write(msg),
+      onOutput: engineOutput(),
+      onEvent: engineEventHandler('update', changeGrouping(options)),
     });
 
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -217,16 +725,25 @@ async function deploy(options: DeployOptions): Promise<void> {
     fs.writeFileSync(outputFile, JSON.stringify(outputData, null, 2));
     console.log(`   └─ 📄 Saved to: ${outputFile}`);
 
+    const maskedOutputs = maskOutputs(outputs);
+    emitEvent('outputs', { outputs: maskedOutputs });
+    setResultData({
+      deployed: true,
+      resourceChanges: changes,
+      outputs: maskedOutputs,
+      outputFile,
+    });
+
     // Print detailed summary
     console.log('\n🔥 Firebase Projects Created:');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    for (const env of options.environments) {
-      const projectId = `${options.projectBaseName}-${env}`;
-      console.log(`\n  ✅ ${env.toUpperCase()} Environment`);
+    for (const env of resolveEnvironments(options)) {
+      const projectId = env.projectName;
+      console.log(`\n  ✅ ${env.environment.toUpperCase()} Environment`);
       console.log(`     └─ 🆔 Project ID: ${projectId}`);
       console.log(`     └─ 🌐 Console: https://console.firebase.google.com/project/${projectId}`);
-      console.log(`     └─ 📱 Android: ${options.androidPackageName}.${env}`);
-      console.log(`     └─ 🍎 iOS: ${options.iosBundleId}.${env}`);
+      console.log(`     └─ 📱 Android: ${env.androidPackageName}`);
+      console.log(`     └─ 🍎 iOS: ${env.iosBundleId}`);
     }
 
     console.log('\n🔗 GitHub Secrets Configured:');
@@ -236,7 +753,7 @@ async function deploy(options: DeployOptions): Promise<void> {
     console.log('\n📋 Next Steps:');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('  1️⃣  Review outputs: cat firebase-infrastructure-outputs.json | jq');
-    console.log('  2️⃣  Copy Firebase config files to your Flutter project');
+    console.log('  2️⃣  Write Firebase config files into your Flutter project: npm run cli -- sync-config <flutter-project-dir>');
     console.log('  3️⃣  Test your Flutter app: flutter run --flavor dev');
     console.log('  4️⃣  Push to GitHub to trigger CI/CD workflows');
 
@@ -245,29 +762,260 @@ async function deploy(options: DeployOptions): Promise<void> {
   } catch (error) {
     console.error('\n❌ Deployment failed:');
     console.error(error);
+    if (restoreKeyRotationState) {
+      // Otherwise the next deploy would treat a rotation this one didn't finish as done
+      try {
+        await restoreKeyRotationState();
+      } catch (restoreError) {
+        console.error('⚠️  Could not restore the previous key rotation state:');
+        console.error(restoreError);
+      }
+    }
     process.exit(1);
   }
 }
 
-async function destroy(stackName: string): Promise<void> {
-  const workDir = path.join(__dirname);
+/** Where an existing stack lives, from the --backend-url and --secrets-* flags */
+type StackLocation = Pick<DeployOptions, 'backendUrl' | 'secretsProvider' | 'secretsPassphraseFile'>;
+
+/**
+ * Selects an existing stack by name, or the workspace's currently selected stack.
+ */
+async function selectExistingStack(stackName: string | undefined, location: StackLocation): Promise<Stack> {
+  const wsOptions = workspaceOptions(location);
+  const workDir = wsOptions.workDir!;
 
-  console.log(`\n🗑️  Destroying stack: ${stackName}\n`);
+  if (!stackName) {
+    const workspace = await LocalWorkspace.create(wsOptions);
+    const current = await workspace.stack();
+    if (!current) {
+      console.error('❌ No stack selected. Pass --stack <stack-name> or run: pulumi stack select');
+      process.exit(1);
+    }
+    stackName = current.name;
+  }
+
+  setResultStack(stackName);
+  return LocalWorkspace.selectStack({
+    stackName,
+    workDir,
+  }, wsOptions);
+}
+
+async function syncConfig(
+  projectDir: string,
+  flags: StackLocation & { stack?: string; check: boolean }
+): Promise<void> {
+  console.log(`\n📲 ${flags.check ? 'Checking' : 'Syncing'} Firebase config files in: ${projectDir}\n`);
 
   try {
-    const stack = await LocalWorkspace.selectStack({
-      stackName,
-      workDir,
+    const stack = await selectExistingStack(flags.stack, flags);
+    console.log(`✅ Stack: ${stack.name}\n`);
+
+    const files = flutterConfigFilesFromOutputs(await stack.outputs());
+    if (files.length === 0) {
+      console.error('❌ Stack has no google_services_* outputs. Run deploy first.');
+      process.exit(1);
+    }
+
+    let outdated = 0;
+    const results: { environment: string; path: string; status: string; written: boolean }[] = [];
+    for (const file of files) {
+      if (file.content.length === 0) {
+        console.log(`  ⚠️  ${file.relativePath}: stack output is empty, skipped`);
+        results.push({ environment: file.environment, path: file.relativePath, status: 'no-output', written: false });
+        continue;
+      }
+
+      const status = flutterConfigFileStatus(projectDir, file);
+      const result = { environment: file.environment, path: file.relativePath, status, written: false };
+      results.push(result);
+      if (status === 'up-to-date') {
+        console.log(`  ✅ ${file.relativePath}: up to date`);
+        continue;
+      }
+
+      outdated++;
+      if (flags.check) {
+        console.log(`  ❌ ${file.relativePath}: ${status}`);
+      } else {
+        writeFlutterConfigFile(projectDir, file);
+        result.written = true;
+        console.log(`  📝 ${file.relativePath}: ${status === 'missing' ? 'created' : 'updated'}`);
+      }
+    }
+    setResultData({ projectDir, check: flags.check, files: results });
+
+    if (flags.check && outdated > 0) {
+      console.error(`\n❌ ${outdated} config file(s) out of date. Run: npm run cli -- sync-config ${projectDir}`);
+      process.exit(1);
+    }
+
+    console.log(flags.check ? '\n✅ All config files are up to date' : '\n✅ Config files synced');
+
+  } catch (error) {
+    console.error('\n❌ Config sync failed:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Reads the project base name and environment names back from the stack config, so
+ * commands that work on an existing stack don't need the deploy config file.
+ */
+async function readStackGrouping(stack: Stack): Promise<ChangeGroupingOptions> {
+  const config = await stack.getAllConfig();
+  const environments = config[`${PULUMI_PROJECT}:environments`]?.value;
+
+  return {
+    projectBaseName: config[`${PULUMI_PROJECT}:projectBaseName`]?.value ?? '',
+    environments: environments ? environmentNames({ environments: JSON.parse(environments) }) : [],
+  };
+}
+
+async function status(flags: StackLocation & { stack?: string }): Promise<void> {
+  console.log('\n🩺 Checking stack status\n');
+
+  try {
+    const stack = await selectExistingStack(flags.stack, flags);
+    console.log(`✅ Stack: ${stack.name}\n`);
+
+    const [lastUpdate] = await stack.history(1);
+    printLastUpdate(lastUpdate);
+    setResultData({
+      lastUpdate: lastUpdate
+        ? {
+          kind: lastUpdate.kind,
+          result: lastUpdate.result,
+          version: lastUpdate.version,
+          startTime: new Date(lastUpdate.startTime).toISOString(),
+          endTime: lastUpdate.endTime ? new Date(lastUpdate.endTime).toISOString() : null,
+        }
+        : null,
     });
 
-    console.log('⚠️  This will destroy all infrastructure. Continue? (waiting 5 seconds...)');
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    console.log('🔎 Comparing cloud resources with stack state (pulumi refresh --preview-only)...\n');
+    const grouping = await readStackGrouping(stack);
+    const collector = new DriftCollector(grouping);
+
+    await stack.refresh({
+      previewOnly: true,
+      onEvent: engineEventHandler('refresh', grouping, collector.onEvent),
+    });
+
+    printDrift(collector.all, grouping.environments);
+    setResultData({ driftDetected: collector.all.length > 0, drift: collector.all });
+
+    if (collector.all.length > 0) {
+      console.log('⚠️  Drift detected. Run deploy to restore the declared configuration,');
+      console.log('   or update the config to match the manual changes.\n');
+      process.exit(EXIT_DRIFT_DETECTED);
+    }
+
+  } catch (error) {
+    console.error('\n❌ Status check failed:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+interface DestroyFlags extends StackLocation {
+  env?: string;
+  confirm?: string;
+  unprotectProd: boolean;
+}
+
+async function destroy(stackName: string, flags: DestroyFlags): Promise<void> {
+  const scope = flags.env ? `environment ${flags.env} of stack ${stackName}` : `stack ${stackName}`;
+  console.log(`\n🗑️  Destroying ${scope}\n`);
+
+  try {
+    const stack = await selectExistingStack(stackName, flags);
+    const grouping = await readStackGrouping(stack);
+
+    if (flags.env && !grouping.environments.includes(flags.env)) {
+      console.error(`❌ Unknown environment "${flags.env}". Stack environments: ${grouping.environments.join(', ')}`);
+      process.exit(1);
+    }
+
+    // Show exactly what will be deleted
+    const resources = (await readStackResources(stack, grouping))
+      .filter(r => !flags.env || r.environment === flags.env);
+
+    setResultData({ environment: flags.env ?? null, resources, destroyed: false });
+    if (resources.length === 0) {
+      console.log('✅ Nothing to destroy.\n');
+      return;
+    }
+
+    console.log('🗑️  Resources to be deleted:');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    printStackResources(resources, grouping.environments);
+    console.log(`\n  Total: ${resources.length} resource(s)`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+    if (flags.env) {
+      console.log('ℹ️  Other environments, the shared signing keys and repository-wide');
+      console.log(`   GitHub secrets are kept. Remove "${flags.env}" from the config, or the next`);
+      console.log('   deploy will recreate it.\n');
+    }
+
+    // Protected resources (the prod project, Android keystores) block the destroy unless
+    // explicitly unprotected
+    const protectedResources = resources.filter(r => r.protected);
+    if (protectedResources.length > 0) {
+      if (!flags.unprotectProd) {
+        console.error('❌ Protected resources would be deleted:');
+        for (const resource of protectedResources) {
+          console.error(`   └─ 🔒 ${resource.type} ${resource.name}`);
+        }
+        console.error('\n   Destroy other environments with --env <name>, or pass --unprotect-prod');
+        console.error('   if you really want to delete production and the Android signing keys.');
+        process.exit(1);
+      }
+
+      console.log('🚨 --unprotect-prod: protected resources will be unprotected and DELETED.');
+      console.log('   Deleted GCP projects cannot be recreated under the same ID for 30 days.');
+      console.log('   Back up the Android keystores first: apps on Google Play need the same upload key.\n');
+    }
 
+    // Typed confirmation
+    if (flags.confirm !== undefined) {
+      if (flags.confirm !== stackName) {
+        console.error(`❌ --confirm value does not match the stack name "${stackName}"`);
+        process.exit(1);
+      }
+    } else if (!process.stdin.isTTY) {
+      console.error(`❌ Refusing to destroy without confirmation. Re-run with --confirm ${stackName} in non-interactive environments.`);
+      process.exit(1);
+    } else {
+      const answer = await prompt(`Type the stack name (${stackName}) to confirm: `);
+      if (answer.trim() !== stackName) {
+        console.log('\n🛑 Destroy cancelled');
+        setResultData({ cancelled: true });
+        return;
+      }
+    }
+
+    if (protectedResources.length > 0) {
+      console.log('\n🔓 Removing protection...');
+      await unprotectResources(stack, protectedResources.map(r => r.urn));
+      for (const resource of protectedResources) {
+        console.log(`   └─ ${resource.name}`);
+      }
+    }
+
+    console.log('');
     await stack.destroy({
-      onOutput: (msg) => process.stdout.write(msg),
+      onOutput: engineOutput(),
+      onEvent: engineEventHandler('destroy', grouping),
+      // Only the selected environment's resources and anything depending on them
+      ...(flags.env ? { target: resources.map(r => r.urn), targetDependents: true } : {}),
     });
 
-    console.log('\n✅ Stack destroyed');
+    console.log(flags.env ? `\n✅ Environment ${flags.env} destroyed` : '\n✅ Stack destroyed');
+    setResultData({ destroyed: true });
 
   } catch (error) {
     console.error('\n❌ Destroy failed:');
@@ -277,39 +1025,171 @@ async function destroy(stackName: string): Promise<void> {
 }
 
 // CLI interface
-const command = process.argv[2];
+const { values: flags, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    yes: { type: 'boolean', short: 'y', default: false },
+    check: { type: 'boolean', default: false },
+    stack: { type: 'string' },
+    'backend-url': { type: 'string' },
+    'secrets-provider': { type: 'string' },
+    'secrets-passphrase-file': { type: 'string' },
+    env: { type: 'string' },
+    confirm: { type: 'string' },
+    'unprotect-prod': { type: 'boolean', default: false },
+    'skip-rules-tests': { type: 'boolean', default: false },
+    output: { type: 'string', short: 'o', default: 'text' },
+  },
+});
+const command = positionals[0];
+
+if (!OUTPUT_FORMATS.includes(flags.output as OutputFormat)) {
+  console.error(`Unknown output format "${flags.output}". Use: ${OUTPUT_FORMATS.join(', ')}`);
+  process.exit(1);
+}
+
+if (flags.output === 'json') {
+  enableJsonOutput(command ?? '');
+}
 
-if (command === 'deploy') {
-  // Read configuration from stdin or environment
-  const configFile = process.argv[3];
+// Commands without a config file take the backend and secrets settings as flags
+const stackLocation: StackLocation = {
+  backendUrl: flags['backend-url'],
+  secretsProvider: flags['secrets-provider'],
+  secretsPassphraseFile: flags['secrets-passphrase-file'],
+};
+
+function commandOnPath(name: string): boolean {
+  return (process.env.PATH ?? '').split(path.delimiter).some(dir => dir && fs.existsSync(path.join(dir, name)));
+}
+
+function readDeployOptions(usage: string): DeployOptions {
+  const configFile = positionals[1];
 
   if (!configFile) {
-    console.error('Usage: cli.ts deploy <config-file>');
+    console.error(`Usage: ${usage}`);
+    process.exit(1);
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+  } catch (err) {
+    console.error(`❌ Could not read config file ${configFile}: ${(err as Error).message}`);
     process.exit(1);
   }
 
-  const config = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
-  deploy(config).catch(err => {
+  // Validate before touching Pulumi so every problem is reported at once
+  const issues = validateDeployOptions(config);
+  if (issues.length > 0) {
+    console.error(`❌ Invalid configuration in ${configFile}:`);
+    console.error(formatValidationIssues(issues));
+    setResultData({ validationIssues: issues });
+    process.exit(1);
+  }
+
+  // The program shells out to curl for the GitLab API
+  const options = config as DeployOptions;
+  if ((options.secretSinks ?? []).some(sink => sink.type === 'gitlab') && !commandOnPath('curl')) {
+    console.error('❌ The gitlab secret sink needs curl on the PATH of this machine');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+if (command === 'preview') {
+  const config = readDeployOptions('cli.ts preview <config-file>');
+  preview(config).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+
+} else if (command === 'deploy') {
+  const config = readDeployOptions('cli.ts deploy <config-file> [--yes] [--skip-rules-tests]');
+  deploy(config, { yes: flags.yes === true, skipRulesTests: flags['skip-rules-tests'] === true }).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+
+} else if (command === 'rotate-keys') {
+  const usage = 'cli.ts rotate-keys <config-file> [--env <name>] [--yes] [--skip-rules-tests]';
+  const config = readDeployOptions(usage);
+  const keyEnvironments = resolveEnvironments(config)
+    .filter(env => !env.workloadIdentity.enabled)
+    .map(env => env.environment);
+  if (flags.env && !keyEnvironments.includes(flags.env)) {
+    console.error(`❌ Environment "${flags.env}" has no service account key. Key environments: ${keyEnvironments.join(', ') || 'none'}`);
+    process.exit(1);
+  }
+  deploy(config, {
+    yes: flags.yes === true,
+    skipRulesTests: flags['skip-rules-tests'] === true,
+    rotateKeys: flags.env ? [flags.env] : keyEnvironments,
+  }).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+
+} else if (command === 'test-rules') {
+  const config = readDeployOptions('cli.ts test-rules <config-file>');
+  testRules(config).then(passed => {
+    process.exit(passed ? 0 : 1);
+  }).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+
+} else if (command === 'sync-config') {
+  const projectDir = positionals[1];
+
+  if (!projectDir) {
+    console.error('Usage: cli.ts sync-config <flutter-project-dir> [--check] [--stack <stack-name>]');
+    process.exit(1);
+  }
+
+  syncConfig(projectDir, { ...stackLocation, stack: flags.stack, check: flags.check === true }).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+
+} else if (command === 'status') {
+  status({ ...stackLocation, stack: flags.stack }).catch(err => {
     console.error(err);
     process.exit(1);
   });
 
 } else if (command === 'destroy') {
-  const stackName = process.argv[3];
+  const stackName = positionals[1];
 
   if (!stackName) {
-    console.error('Usage: cli.ts destroy <stack-name>');
+    console.error('Usage: cli.ts destroy <stack-name> [--env <name>] [--unprotect-prod] [--confirm <stack-name>]');
     process.exit(1);
   }
 
-  destroy(stackName).catch(err => {
+  destroy(stackName, {
+    ...stackLocation,
+    env: flags.env,
+    confirm: flags.confirm,
+    unprotectProd: flags['unprotect-prod'] === true,
+  }).catch(err => {
     console.error(err);
     process.exit(1);
   });
 
 } else {
   console.error('Usage:');
-  console.error('  cli.ts deploy <config-file>');
-  console.error('  cli.ts destroy <stack-name>');
+  console.error('  cli.ts preview <config-file>');
+  console.error('  cli.ts deploy <config-file> [--yes] [--skip-rules-tests]');
+  console.error('  cli.ts rotate-keys <config-file> [--env <name>] [--yes] [--skip-rules-tests]');
+  console.error('  cli.ts test-rules <config-file>');
+  console.error('  cli.ts sync-config <flutter-project-dir> [--check] [--stack <stack-name>]');
+  console.error('  cli.ts status [--stack <stack-name>]');
+  console.error('  cli.ts destroy <stack-name> [--env <name>] [--unprotect-prod] [--confirm <stack-name>]');
+  console.error('');
+  console.error('  --backend-url <url>  State backend for sync-config, status and destroy');
+  console.error('                       (defaults to the `pulumi login` backend)');
+  console.error('  --output json        Newline-delimited JSON events and a final result on stdout');
   process.exit(1);
 }
@@ -0,0 +1,1904 @@
+import * as fs from "fs";
+import type { FirebaseEnvironmentConfig } from "./firebase";
+import {
+  BACKUP_WEEKDAYS,
+  FirestoreBackupConfig,
+  FirestoreTtlField,
+  MAX_BACKUP_RETENTION_DAYS,
+  validateFirestoreIndexFile,
+} from "./firestore";
+import {
+  CORS_METHODS,
+  MAX_SOFT_DELETE_RETENTION_DAYS,
+  MIN_SOFT_DELETE_RETENTION_DAYS,
+  STORAGE_CLASSES,
+  StorageConfig,
+} from "./storage";
+import {
+  IamConfig,
+  KeyRotationConfig,
+  PRIMARY_SERVICE_ACCOUNT,
+  WorkloadIdentityConfig,
+  iamProfiles,
+} from "./iam";
+import {
+  DEFAULT_GITHUB_NAME_TEMPLATE,
+  GITHUB_VALUE_KINDS,
+  GitHubEnvironmentConfig,
+  MAX_ENVIRONMENT_REVIEWERS,
+  MAX_WAIT_TIMER_MINUTES,
+  githubEnvironmentName,
+  githubValueName,
+} from "./github";
+import { SECRET_SINK_TYPES, SecretSinkConfig } from "./sinks";
+import { ANDROID_KEY_ALGORITHMS, ANDROID_KEY_SIZES, AndroidSigningConfig, normalizeFingerprint } from "./android";
+import { KEYSTORE_TYPES } from "./keystore";
+import { projectPath } from "./paths";
+import { IosSigningConfig, appStoreConnectKeyId, readCertificate } from "./ios";
+import {
+  AuthConfig,
+  AuthPasswordPolicy,
+  BLOCKING_FUNCTION_EVENTS,
+  FORWARDED_CREDENTIALS,
+  MAX_PASSWORD_LENGTH,
+  MAX_TOTP_ADJACENT_INTERVALS,
+  MFA_FACTORS,
+  MFA_STATES,
+  MIN_PASSWORD_LENGTH,
+} from "./auth";
+import { FunctionsConfig, FunctionsSecretValues } from "./functions";
+
+// ============================================================================
+// Deployment configuration
+// ============================================================================
+
+/**
+ * Configuration accepted by `cli.ts` (JSON config file) and, key for key, by the
+ * stack configuration read in `index.ts`.
+ */
+export interface DeployOptions {
+  projectBaseName: string;
+  organization: string;
+  environments: EnvironmentEntry[];
+  githubRepo: string;
+  androidPackageName: string;
+  iosBundleId: string;
+  gcpBillingAccount?: string;
+  gcpOrganizationId?: string;
+  githubToken?: string;
+  firestoreRegion?: string;
+  firebaseFunctionsRegion?: string;
+  enableAuth?: boolean;
+  enableFirestore?: boolean;
+  enableFunctions?: boolean;
+  enableStorage?: boolean;
+  enableHosting?: boolean;
+  /** Security rules files, relative to the Pulumi project directory */
+  firestoreRulesPath?: string;
+  storageRulesPath?: string;
+  /** Rules unit test command, run against the Firestore/Storage emulators before deploy */
+  rulesTestCommand?: string;
+  /** Identity Platform sign-in providers, authorized domains, password policy, blocking functions and MFA */
+  auth?: AuthConfig;
+  /** Secrets of the Google and Apple sign-in providers */
+  authGoogleClientSecret?: string;
+  authApplePrivateKey?: string;
+  /** Cloud Functions image repository cleanup, runtime account roles and Secret Manager secrets */
+  functions?: FunctionsConfig;
+  /** Values of functions.secrets: one per secret, or per secret and environment */
+  functionsSecretValues?: FunctionsSecretValues;
+  /** Firestore composite indexes and field overrides (firestore.indexes.json format) */
+  firestoreIndexesPath?: string;
+  /** Firestore TTL policies, e.g. { collectionGroup: "sessions", field: "expireAt" } */
+  firestoreTtlFields?: FirestoreTtlField[];
+  /** Firestore PITR, delete protection, backup schedules and exports */
+  firestoreBackups?: FirestoreBackupConfig;
+  /** Storage bucket location, CORS, versioning, lifecycle, soft delete and extra buckets */
+  storage?: StorageConfig;
+  /** Service accounts with IAM profiles, custom roles and extra member bindings */
+  iam?: IamConfig;
+  /** Keyless GitHub Actions auth (Workload Identity Federation) instead of a key */
+  workloadIdentity?: WorkloadIdentityConfig;
+  /** Service account key rotation (key mode only) */
+  keyRotation?: KeyRotationConfig;
+  /** GitHub deployment environments with protection rules and environment-scoped secrets */
+  githubEnvironments?: GitHubEnvironmentConfig;
+  /** Extra SHA-1/SHA-256 fingerprints for the Firebase Android apps, e.g. Play App Signing's */
+  androidCertificateFingerprints?: string[];
+  /** GitHub secret and variable names, e.g. `MYAPP_{NAME}_{ENV}` */
+  githubNameTemplate?: string;
+  /** Where secrets are published; defaults to GitHub only */
+  secretSinks?: SecretSinkConfig[];
+  /** GitLab access token (api scope), for the gitlab secret sink */
+  gitlabToken?: string;
+  /** Encrypts the file written by the localFile secret sink */
+  secretsFilePassphrase?: string;
+  /** Android keys: per environment or shared, internal key, import, key settings */
+  androidSigning?: AndroidSigningConfig;
+  /** Passwords of the keystore in androidSigning.import */
+  androidKeystorePassword?: string;
+  androidKeyPassword?: string;
+  /** iOS distribution signing: key and CSR, certificate, provisioning profiles, API key */
+  iosSigning?: IosSigningConfig;
+  /** State backend, e.g. `file://~/.pulumi-state` or `s3://bucket`; defaults to the `pulumi login` backend */
+  backendUrl?: string;
+  /** Stack name with `{user}` and `{projectBaseName}` placeholders */
+  stackNameTemplate?: string;
+  /** `passphrase`, `default`, or a KMS URL such as `gcpkms://...` */
+  secretsProvider?: string;
+  /** File holding the passphrase for the passphrase secrets provider */
+  secretsPassphraseFile?: string;
+}
+
+/**
+ * Per-environment overrides of the global settings. Any `FirebaseEnvironmentConfig`
+ * field except the derived identity fields can be overridden; app IDs are given in
+ * full (e.g. prod may use `com.mycompany.myapp` without a suffix).
+ */
+export type EnvironmentOverrides = Partial<Omit<FirebaseEnvironmentConfig, "projectName" | "environment">>;
+
+export interface EnvironmentDefinition extends EnvironmentOverrides {
+  name: string;
+}
+
+/**
+ * An environment is either a plain name using the global settings, or an object with a
+ * name and overrides.
+ */
+export type EnvironmentEntry = string | EnvironmentDefinition;
+
+export const DEFAULT_ENVIRONMENTS: EnvironmentEntry[] = ["dev", "staging", "prod"];
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`Invalid configuration:\n${formatValidationIssues(issues)}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+// ============================================================================
+// Known values
+// ============================================================================
+
+const DEPLOY_OPTION_KEYS: ReadonlyArray<keyof DeployOptions> = [
+  "projectBaseName",
+  "organization",
+  "environments",
+  "githubRepo",
+  "androidPackageName",
+  "iosBundleId",
+  "gcpBillingAccount",
+  "gcpOrganizationId",
+  "githubToken",
+  "firestoreRegion",
+  "firebaseFunctionsRegion",
+  "enableAuth",
+  "enableFirestore",
+  "enableFunctions",
+  "enableStorage",
+  "enableHosting",
+  "firestoreRulesPath",
+  "storageRulesPath",
+  "rulesTestCommand",
+  "auth",
+  "authGoogleClientSecret",
+  "authApplePrivateKey",
+  "functions",
+  "functionsSecretValues",
+  "firestoreIndexesPath",
+  "firestoreTtlFields",
+  "firestoreBackups",
+  "storage",
+  "iam",
+  "workloadIdentity",
+  "keyRotation",
+  "githubEnvironments",
+  "androidCertificateFingerprints",
+  "githubNameTemplate",
+  "secretSinks",
+  "gitlabToken",
+  "secretsFilePassphrase",
+  "androidSigning",
+  "androidKeystorePassword",
+  "androidKeyPassword",
+  "iosSigning",
+  "backendUrl",
+  "stackNameTemplate",
+  "secretsProvider",
+  "secretsPassphraseFile",
+];
+
+// Regions where Cloud Functions (2nd gen) and regional Firestore databases are available
+export const GCP_REGIONS = [
+  "africa-south1",
+  "asia-east1",
+  "asia-east2",
+  "asia-northeast1",
+  "asia-northeast2",
+  "asia-northeast3",
+  "asia-south1",
+  "asia-south2",
+  "asia-southeast1",
+  "asia-southeast2",
+  "australia-southeast1",
+  "australia-southeast2",
+  "europe-central2",
+  "europe-north1",
+  "europe-southwest1",
+  "europe-west1",
+  "europe-west2",
+  "europe-west3",
+  "europe-west4",
+  "europe-west6",
+  "europe-west8",
+  "europe-west9",
+  "europe-west10",
+  "europe-west12",
+  "me-central1",
+  "me-central2",
+  "me-west1",
+  "northamerica-northeast1",
+  "northamerica-northeast2",
+  "southamerica-east1",
+  "southamerica-west1",
+  "us-central1",
+  "us-east1",
+  "us-east4",
+  "us-east5",
+  "us-south1",
+  "us-west1",
+  "us-west2",
+  "us-west3",
+  "us-west4",
+];
+
+export const FIRESTORE_MULTI_REGIONS = ["eur3", "nam5", "nam7"];
+
+export const FIRESTORE_REGIONS = [...FIRESTORE_MULTI_REGIONS, ...GCP_REGIONS];
+
+export const DEFAULT_FIRESTORE_RULES_PATH = "rules/firestore.rules";
+export const DEFAULT_STORAGE_RULES_PATH = "rules/storage.rules";
+
+// Relative paths in the configuration are resolved against the Pulumi project directory
+function projectFileExists(relativePath: string): boolean {
+  return fs.existsSync(projectPath(relativePath));
+}
+
+function firestoreIndexFileProblems(indexesPath: string): string[] {
+  if (!projectFileExists(indexesPath)) {
+    return [`index file "${indexesPath}" not found (paths are relative to the Pulumi project directory)`];
+  }
+  try {
+    return validateFirestoreIndexFile(JSON.parse(fs.readFileSync(projectPath(indexesPath), "utf-8")))
+      .map((problem) => `${indexesPath}: ${problem}`);
+  } catch (err) {
+    return [`${indexesPath} is not valid JSON: ${(err as Error).message}`];
+  }
+}
+
+function firestoreTtlFieldProblems(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ["must be a list of { collectionGroup, field } objects"];
+  }
+  return value.flatMap((entry, index) =>
+    typeof entry === "object" && entry !== null &&
+    typeof entry.collectionGroup === "string" && entry.collectionGroup !== "" &&
+    typeof entry.field === "string" && entry.field !== ""
+      ? []
+      : [`[${index}] must be an object with a collectionGroup and a field`]
+  );
+}
+
+const FIRESTORE_BACKUP_KEYS: ReadonlyArray<keyof FirestoreBackupConfig> = [
+  "pointInTimeRecovery",
+  "deleteProtection",
+  "dailyRetentionDays",
+  "weeklyBackupDay",
+  "weeklyRetentionDays",
+  "exportSchedule",
+  "exportRetentionDays",
+];
+
+// Five whitespace-separated cron fields, e.g. "0 3 * * *"
+const CRON_SCHEDULE = /^\S+(\s+\S+){4}$/;
+
+function checkFirestoreBackups(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const [key, setting] of Object.entries(value as Record<string, unknown>)) {
+    const settingPath = `${fieldPath}.${key}`;
+    if (!(FIRESTORE_BACKUP_KEYS as string[]).includes(key)) {
+      report(settingPath, "unknown backup setting");
+    } else if (key === "pointInTimeRecovery" || key === "deleteProtection") {
+      if (typeof setting !== "boolean") {
+        report(settingPath, "must be true or false");
+      }
+    } else if (key === "dailyRetentionDays" || key === "weeklyRetentionDays") {
+      if (!Number.isInteger(setting) || (setting as number) < 1 || (setting as number) > MAX_BACKUP_RETENTION_DAYS) {
+        report(settingPath, `must be a whole number of days between 1 and ${MAX_BACKUP_RETENTION_DAYS}`);
+      }
+    } else if (key === "exportRetentionDays") {
+      if (!Number.isInteger(setting) || (setting as number) < 1) {
+        report(settingPath, "must be a positive whole number of days");
+      }
+    } else if (key === "weeklyBackupDay") {
+      if (typeof setting !== "string" || !BACKUP_WEEKDAYS.includes(setting)) {
+        report(settingPath, `must be one of ${BACKUP_WEEKDAYS.join(", ")}`);
+      }
+    } else if (key === "exportSchedule") {
+      if (typeof setting !== "string" || !CRON_SCHEDULE.test(setting.trim())) {
+        report(settingPath, `must be a cron schedule such as "0 3 * * *"`);
+      }
+    }
+  }
+}
+
+const ENVIRONMENT_OVERRIDE_KEYS: ReadonlyArray<keyof EnvironmentOverrides> = [
+  "billingAccount",
+  "organizationId",
+  "enableAuth",
+  "enableFirestore",
+  "enableFunctions",
+  "enableStorage",
+  "enableHosting",
+  "androidPackageName",
+  "iosBundleId",
+  "firestoreRegion",
+  "functionsRegion",
+  "firestoreRulesPath",
+  "storageRulesPath",
+  "auth",
+  "functions",
+  "firestoreIndexesPath",
+  "firestoreTtlFields",
+  "firestoreBackups",
+  "storage",
+  "iam",
+  "workloadIdentity",
+  "keyRotation",
+  "githubEnvironments",
+  "androidCertificateFingerprints",
+];
+
+// Environment names end up in project IDs, package names and GitHub secret names,
+// so they are limited to what is valid in all three.
+const ENVIRONMENT_NAME = /^[a-z][a-z0-9]*$/;
+const GCP_PROJECT_ID = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+const ANDROID_PACKAGE_NAME = /^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+$/;
+const IOS_BUNDLE_ID = /^[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)+$/;
+const GITHUB_REPO = /^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,38})\/[a-zA-Z0-9._-]{1,100}$/;
+const GCP_BILLING_ACCOUNT = /^[0-9A-F]{6}-[0-9A-F]{6}-[0-9A-F]{6}$/;
+const GCP_ORGANIZATION_ID = /^[0-9]+$/;
+const BACKEND_URL = /^(https?|file|s3|gs|azblob):\/\/.*$/;
+const STACK_NAME_TEMPLATE = /^([a-zA-Z0-9._-]|\{user\}|\{projectBaseName\})+(\/([a-zA-Z0-9._-]|\{user\}|\{projectBaseName\})+){0,2}$/;
+// GitHub secret and variable names: letters, digits and underscores, not starting with a
+// digit or GITHUB_
+const GITHUB_VALUE_NAME = /^(?!GITHUB_)[A-Z_][A-Z0-9_]*$/;
+const SECRETS_PROVIDER = /^(default|passphrase|(awskms|azurekeyvault|gcpkms|hashivault):\/\/.+)$/;
+
+const STORAGE_MULTI_REGIONS = ["EU", "US", "ASIA", "EUR4", "EUR5", "EUR7", "EUR8", "NAM4", "ASIA1"];
+
+const STORAGE_BUCKET_OPTION_KEYS = ["location", "cors", "versioning", "lifecycleRules", "softDeleteRetentionDays"];
+
+// Suffix of an additional bucket, appended to the project ID
+const STORAGE_BUCKET_SUFFIX = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "string" && item !== "");
+}
+
+function checkStorageBucketOptions(
+  fieldPath: string,
+  options: Record<string, unknown>,
+  report: (path: string, message: string) => void
+): void {
+  const { location, cors, versioning, lifecycleRules, softDeleteRetentionDays } = options;
+
+  if (location !== undefined) {
+    const known = typeof location === "string" &&
+      (STORAGE_MULTI_REGIONS.includes(location.toUpperCase()) || GCP_REGIONS.includes(location.toLowerCase()));
+    if (!known) {
+      report(`${fieldPath}.location`, `unknown Cloud Storage location "${location}"`);
+    }
+  }
+
+  if (cors !== undefined) {
+    if (!Array.isArray(cors)) {
+      report(`${fieldPath}.cors`, "must be a list of CORS rules");
+    } else {
+      cors.forEach((rule: unknown, index) => {
+        const rulePath = `${fieldPath}.cors[${index}]`;
+        if (!isRecord(rule)) {
+          report(rulePath, "must be an object with origins and methods");
+          return;
+        }
+        if (!isStringList(rule.origins)) {
+          report(`${rulePath}.origins`, "must be a non-empty list of origins");
+        }
+        if (!isStringList(rule.methods) || rule.methods.some((method) => !CORS_METHODS.includes(method))) {
+          report(`${rulePath}.methods`, `must be a non-empty list of ${CORS_METHODS.join(", ")}`);
+        }
+        if (rule.responseHeaders !== undefined && !isStringList(rule.responseHeaders)) {
+          report(`${rulePath}.responseHeaders`, "must be a non-empty list of header names");
+        }
+        if (rule.maxAgeSeconds !== undefined && (!Number.isInteger(rule.maxAgeSeconds) || (rule.maxAgeSeconds as number) < 0)) {
+          report(`${rulePath}.maxAgeSeconds`, "must be a whole number of seconds");
+        }
+      });
+    }
+  }
+
+  if (versioning !== undefined && typeof versioning !== "boolean") {
+    report(`${fieldPath}.versioning`, "must be true or false");
+  }
+
+  if (lifecycleRules !== undefined) {
+    if (!Array.isArray(lifecycleRules)) {
+      report(`${fieldPath}.lifecycleRules`, "must be a list of lifecycle rules");
+    } else {
+      lifecycleRules.forEach((rule: unknown, index) => {
+        const rulePath = `${fieldPath}.lifecycleRules[${index}]`;
+        if (!isRecord(rule)) {
+          report(rulePath, "must be an object with action and ageDays");
+          return;
+        }
+        if (rule.action !== "Delete" && rule.action !== "SetStorageClass") {
+          report(`${rulePath}.action`, "must be Delete or SetStorageClass");
+        } else if (rule.action === "SetStorageClass" && !STORAGE_CLASSES.includes(rule.storageClass as string)) {
+          report(`${rulePath}.storageClass`, `must be one of ${STORAGE_CLASSES.join(", ")}`);
+        }
+        if (!Number.isInteger(rule.ageDays) || (rule.ageDays as number) < 0) {
+          report(`${rulePath}.ageDays`, "must be a whole number of days");
+        }
+        if (rule.prefixes !== undefined && !isStringList(rule.prefixes)) {
+          report(`${rulePath}.prefixes`, "must be a non-empty list of object name prefixes");
+        }
+      });
+    }
+  }
+
+  if (softDeleteRetentionDays !== undefined) {
+    const days = softDeleteRetentionDays as number;
+    const valid = Number.isInteger(days) &&
+      (days === 0 || (days >= MIN_SOFT_DELETE_RETENTION_DAYS && days <= MAX_SOFT_DELETE_RETENTION_DAYS));
+    if (!valid) {
+      report(
+        `${fieldPath}.softDeleteRetentionDays`,
+        `must be 0 (disabled) or between ${MIN_SOFT_DELETE_RETENTION_DAYS} and ${MAX_SOFT_DELETE_RETENTION_DAYS} days`
+      );
+    }
+  }
+}
+
+function checkStorage(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  const { buckets, ...options } = value as Record<string, unknown>;
+  for (const key of Object.keys(options)) {
+    if (!STORAGE_BUCKET_OPTION_KEYS.includes(key)) {
+      report(`${fieldPath}.${key}`, "unknown storage setting");
+    }
+  }
+  checkStorageBucketOptions(fieldPath, options, report);
+
+  if (buckets === undefined) {
+    return;
+  }
+  if (!Array.isArray(buckets)) {
+    report(`${fieldPath}.buckets`, "must be a list of buckets");
+    return;
+  }
+
+  const names: string[] = [];
+  buckets.forEach((bucket: unknown, index) => {
+    const bucketPath = `${fieldPath}.buckets[${index}]`;
+    if (typeof bucket !== "object" || bucket === null || Array.isArray(bucket)) {
+      report(bucketPath, "must be an object with a name");
+      return;
+    }
+
+    const { name, firebase, ...bucketOptions } = bucket as Record<string, unknown>;
+    if (typeof name !== "string" || !STORAGE_BUCKET_SUFFIX.test(name)) {
+      report(`${bucketPath}.name`, "must be up to 32 lowercase letters, digits, hyphens and underscores");
+    } else if (names.includes(name)) {
+      report(`${bucketPath}.name`, `duplicate bucket "${name}"`);
+    } else {
+      names.push(name);
+    }
+    if (firebase !== undefined && typeof firebase !== "boolean") {
+      report(`${bucketPath}.firebase`, "must be true or false");
+    }
+    for (const key of Object.keys(bucketOptions)) {
+      if (!STORAGE_BUCKET_OPTION_KEYS.includes(key)) {
+        report(`${bucketPath}.${key}`, "unknown bucket setting");
+      }
+    }
+    checkStorageBucketOptions(bucketPath, bucketOptions, report);
+  });
+}
+
+const IAM_KEYS = ["profiles", "customRoles", "serviceAccounts", "bindings"];
+
+const SERVICE_ACCOUNT_ID = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+const CUSTOM_ROLE_ID = /^[a-zA-Z0-9_.]{3,64}$/;
+
+const IAM_MEMBER = /^(user|group|serviceAccount|domain):.+$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural checks for an `iam` section. References between profiles, custom roles
+ * and service accounts are checked on the resolved environments (see checkIamReferences),
+ * since an environment can mix global and overridden settings.
+ */
+function checkIam(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!IAM_KEYS.includes(key)) {
+      report(`${fieldPath}.${key}`, "unknown IAM setting");
+    }
+  }
+
+  const { profiles, customRoles, serviceAccounts, bindings } = value;
+
+  if (profiles !== undefined) {
+    if (!isRecord(profiles)) {
+      report(`${fieldPath}.profiles`, "must map profile names to { roles }");
+    } else {
+      for (const [name, profile] of Object.entries(profiles)) {
+        if (!isRecord(profile) || !isStringList(profile.roles)) {
+          report(`${fieldPath}.profiles.${name}.roles`, "must be a non-empty list of roles");
+        }
+      }
+    }
+  }
+
+  if (customRoles !== undefined) {
+    if (!isRecord(customRoles)) {
+      report(`${fieldPath}.customRoles`, "must map role IDs to { title, description, permissions }");
+    } else {
+      for (const [roleId, role] of Object.entries(customRoles)) {
+        const rolePath = `${fieldPath}.customRoles.${roleId}`;
+        if (!CUSTOM_ROLE_ID.test(roleId)) {
+          report(rolePath, "role ID must be 3-64 letters, digits, underscores and dots");
+        }
+        if (!isRecord(role) || !isStringList(role.permissions)) {
+          report(`${rolePath}.permissions`, "must be a non-empty list of permissions");
+        } else if (role.permissions.some((permission) => !/^[a-z0-9]+\.[a-zA-Z0-9]+\.[a-zA-Z0-9]+$/.test(permission))) {
+          report(`${rolePath}.permissions`, "permissions look like service.resource.verb");
+        }
+      }
+    }
+  }
+
+  if (serviceAccounts !== undefined) {
+    if (!Array.isArray(serviceAccounts) || serviceAccounts.length === 0) {
+      report(`${fieldPath}.serviceAccounts`, "must be a non-empty list of service accounts");
+    } else {
+      const names: string[] = [];
+      serviceAccounts.forEach((account: unknown, index) => {
+        const accountPath = `${fieldPath}.serviceAccounts[${index}]`;
+        if (!isRecord(account)) {
+          report(accountPath, "must be an object with a name and profiles");
+          return;
+        }
+        // "cicd" is created as <project>-cicd, other names are used as the account ID
+        const validName = account.name === PRIMARY_SERVICE_ACCOUNT ||
+          (typeof account.name === "string" && SERVICE_ACCOUNT_ID.test(account.name));
+        if (!validName) {
+          report(`${accountPath}.name`, "must be 6-30 lowercase letters, digits and hyphens, starting with a letter");
+        } else if (names.includes(account.name as string)) {
+          report(`${accountPath}.name`, `duplicate service account "${account.name}"`);
+        } else {
+          names.push(account.name as string);
+        }
+        if (!isStringList(account.profiles)) {
+          report(`${accountPath}.profiles`, "must be a non-empty list of profile names");
+        }
+        if (account.description !== undefined && typeof account.description !== "string") {
+          report(`${accountPath}.description`, "must be a string");
+        }
+      });
+    }
+  }
+
+  if (bindings !== undefined) {
+    if (!Array.isArray(bindings)) {
+      report(`${fieldPath}.bindings`, "must be a list of { member, roles }");
+    } else {
+      bindings.forEach((binding: unknown, index) => {
+        const bindingPath = `${fieldPath}.bindings[${index}]`;
+        if (!isRecord(binding) || typeof binding.member !== "string" || !IAM_MEMBER.test(binding.member)) {
+          report(`${bindingPath}.member`, "must start with user:, group:, serviceAccount: or domain:");
+        }
+        if (!isRecord(binding) || !isStringList(binding.roles)) {
+          report(`${bindingPath}.roles`, "must be a non-empty list of roles");
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Checks that every profile a service account uses exists, and that every role that is
+ * not a predefined `roles/...` role is one of the custom roles.
+ */
+function checkIamReferences(
+  fieldPath: (key: keyof IamConfig) => string,
+  iam: IamConfig,
+  report: (path: string, message: string) => void
+): void {
+  const profiles = iamProfiles(iam);
+  const customRoles = Object.keys(iam.customRoles ?? {});
+  const checkRole = (rolePath: string, role: string) => {
+    if (!role.startsWith("roles/") && !customRoles.includes(role)) {
+      report(rolePath, `"${role}" is neither a predefined role (roles/...) nor one of the customRoles`);
+    }
+  };
+
+  for (const [name, profile] of Object.entries(iam.profiles ?? {})) {
+    profile.roles.forEach((role) => checkRole(`${fieldPath("profiles")}.profiles.${name}`, role));
+  }
+  (iam.serviceAccounts ?? []).forEach((account, index) => {
+    for (const profile of account.profiles) {
+      if (!profiles[profile]) {
+        report(
+          `${fieldPath("serviceAccounts")}.serviceAccounts[${index}].profiles`,
+          `unknown profile "${profile}" (available: ${Object.keys(profiles).join(", ")})`
+        );
+      }
+    }
+  });
+  (iam.bindings ?? []).forEach((binding, index) => {
+    binding.roles.forEach((role) => checkRole(`${fieldPath("bindings")}.bindings[${index}]`, role));
+  });
+}
+
+const WORKLOAD_IDENTITY_KEYS = ["enabled", "branch", "githubEnvironment"];
+
+// Branch and GitHub environment names end up in a CEL string literal
+const GITHUB_REF_NAME = /^[A-Za-z0-9._\/-]+$/;
+
+function checkWorkloadIdentity(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const [key, setting] of Object.entries(value)) {
+    const settingPath = `${fieldPath}.${key}`;
+    if (!WORKLOAD_IDENTITY_KEYS.includes(key)) {
+      report(settingPath, "unknown workload identity setting");
+    } else if (key === "enabled") {
+      if (typeof setting !== "boolean") {
+        report(settingPath, "must be true or false");
+      }
+    } else if (typeof setting !== "string" || !GITHUB_REF_NAME.test(setting)) {
+      report(settingPath, "must be a name of letters, digits, '.', '_', '-' and '/'");
+    }
+  }
+}
+
+function checkKeyRotation(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const [key, setting] of Object.entries(value)) {
+    const settingPath = `${fieldPath}.${key}`;
+    if (key !== "rotationDays" && key !== "overlapDays") {
+      report(settingPath, "unknown key rotation setting");
+    } else if (!Number.isInteger(setting) || (setting as number) < (key === "rotationDays" ? 1 : 0)) {
+      report(settingPath, "must be a whole number of days");
+    }
+  }
+
+  const { rotationDays, overlapDays } = value as KeyRotationConfig;
+  if (Number.isInteger(rotationDays) && Number.isInteger(overlapDays) && overlapDays! >= rotationDays!) {
+    report(`${fieldPath}.overlapDays`, "must be shorter than rotationDays");
+  }
+}
+
+const GITHUB_ENVIRONMENT_KEYS = [
+  "enabled",
+  "name",
+  "reviewers",
+  "reviewerTeams",
+  "preventSelfReview",
+  "waitTimerMinutes",
+  "branches",
+  "protectedBranches",
+  "canAdminsBypass",
+];
+
+const GITHUB_LOGIN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/;
+const GITHUB_TEAM_SLUG = /^[a-z0-9][a-z0-9_-]*$/;
+
+function checkGitHubEnvironments(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const [key, setting] of Object.entries(value)) {
+    const settingPath = `${fieldPath}.${key}`;
+    if (!GITHUB_ENVIRONMENT_KEYS.includes(key)) {
+      report(settingPath, "unknown GitHub environment setting");
+    } else if (["enabled", "preventSelfReview", "protectedBranches", "canAdminsBypass"].includes(key)) {
+      if (typeof setting !== "boolean") {
+        report(settingPath, "must be true or false");
+      }
+    } else if (key === "name") {
+      if (typeof setting !== "string" || setting.trim() === "" || setting.length > 255) {
+        report(settingPath, "must be a non-empty name of at most 255 characters");
+      }
+    } else if (key === "waitTimerMinutes") {
+      if (!Number.isInteger(setting) || (setting as number) < 0 || (setting as number) > MAX_WAIT_TIMER_MINUTES) {
+        report(settingPath, `must be a whole number of minutes between 0 and ${MAX_WAIT_TIMER_MINUTES}`);
+      }
+    } else if (key === "branches") {
+      if (!isStringList(setting)) {
+        report(settingPath, "must be a non-empty list of branch name patterns");
+      }
+    } else {
+      const pattern = key === "reviewers" ? GITHUB_LOGIN : GITHUB_TEAM_SLUG;
+      if (!Array.isArray(setting) || setting.some((name) => typeof name !== "string" || !pattern.test(name))) {
+        report(settingPath, key === "reviewers" ? "must be a list of GitHub usernames" : "must be a list of team slugs");
+      } else if (setting.length > MAX_ENVIRONMENT_REVIEWERS) {
+        report(settingPath, `GitHub allows at most ${MAX_ENVIRONMENT_REVIEWERS}`);
+      }
+    }
+  }
+
+  if (value.protectedBranches === true && Array.isArray(value.branches) && value.branches.length > 0) {
+    report(`${fieldPath}.protectedBranches`, "can't be combined with branches; GitHub allows one branch policy");
+  }
+}
+
+const SECRET_SINK_KEYS: Record<string, string[]> = {
+  github: [],
+  gitlab: ["project", "url", "protected", "environmentScoped"],
+  secretManager: [],
+  localFile: ["path"],
+};
+
+const GITLAB_PROJECT = /^[A-Za-z0-9_.-]+(\/[A-Za-z0-9_.-]+)+$/;
+
+function checkSecretSinks(
+  value: unknown,
+  options: Record<string, unknown>,
+  report: (path: string, message: string) => void
+): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    report("secretSinks", "must be a non-empty list of secret sinks");
+    return;
+  }
+
+  const seen = new Set<string>();
+  value.forEach((sink, index) => {
+    const sinkPath = `secretSinks[${index}]`;
+    if (!isRecord(sink) || typeof sink.type !== "string" || !SECRET_SINK_TYPES.includes(sink.type)) {
+      report(`${sinkPath}.type`, `must be one of: ${SECRET_SINK_TYPES.join(", ")}`);
+      return;
+    }
+    if (seen.has(sink.type)) {
+      report(`${sinkPath}.type`, `only one ${sink.type} sink is supported`);
+    }
+    seen.add(sink.type);
+
+    for (const key of Object.keys(sink)) {
+      if (key !== "type" && !SECRET_SINK_KEYS[sink.type].includes(key)) {
+        report(`${sinkPath}.${key}`, `unknown ${sink.type} sink setting`);
+      }
+    }
+
+    if (sink.type === "gitlab") {
+      if (typeof sink.project !== "string" || !GITLAB_PROJECT.test(sink.project)) {
+        report(`${sinkPath}.project`, "is required and must be a project path like group/project");
+      }
+      if (sink.url !== undefined && (typeof sink.url !== "string" || !/^https?:\/\/[^/]+\/?$/.test(sink.url))) {
+        report(`${sinkPath}.url`, "must be the URL of a GitLab instance, e.g. https://gitlab.example.com");
+      }
+      for (const key of ["protected", "environmentScoped"]) {
+        if (sink[key] !== undefined && typeof sink[key] !== "boolean") {
+          report(`${sinkPath}.${key}`, "must be true or false");
+        }
+      }
+      if (!options.gitlabToken) {
+        report("gitlabToken", "is required by the gitlab secret sink");
+      }
+    } else if (sink.type === "localFile") {
+      if (typeof sink.path !== "string" || sink.path.trim() === "") {
+        report(`${sinkPath}.path`, "is required and must be a file path");
+      }
+      if (!options.secretsFilePassphrase) {
+        report("secretsFilePassphrase", "is required by the localFile secret sink");
+      }
+    }
+  });
+}
+
+// SHA-1 or SHA-256, with or without colons
+const ANDROID_CERTIFICATE_FINGERPRINT = /^([0-9a-f]{40}|[0-9a-f]{64})$/;
+
+function checkAndroidCertificateFingerprints(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!Array.isArray(value)) {
+    report(fieldPath, "must be a list of SHA-1 or SHA-256 fingerprints");
+    return;
+  }
+  value.forEach((fingerprint, index) => {
+    if (typeof fingerprint !== "string" || !ANDROID_CERTIFICATE_FINGERPRINT.test(normalizeFingerprint(fingerprint))) {
+      report(`${fieldPath}[${index}]`, "must be a SHA-1 or SHA-256 fingerprint, e.g. AB:CD:... from the Play Console");
+    }
+  });
+}
+
+const ANDROID_SIGNING_KEYS = [
+  "perEnvironment",
+  "internalKey",
+  "import",
+  "storeType",
+  "keyAlgorithm",
+  "keySize",
+  "validity",
+  "distinguishedName",
+];
+const ANDROID_DISTINGUISHED_NAME_KEYS = [
+  "commonName",
+  "organizationalUnit",
+  "organization",
+  "locality",
+  "state",
+  "country",
+];
+const ANDROID_KEYSTORE_IMPORT_KEYS = ["keystorePath", "keyAlias", "environment"];
+
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+
+function checkAndroidSigning(
+  value: unknown,
+  environmentNames: string[],
+  options: Record<string, unknown>,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report("androidSigning", "must be an object");
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!ANDROID_SIGNING_KEYS.includes(key)) {
+      report(`androidSigning.${key}`, "unknown Android signing setting");
+    }
+  }
+  for (const key of ["perEnvironment", "internalKey"]) {
+    if (value[key] !== undefined && typeof value[key] !== "boolean") {
+      report(`androidSigning.${key}`, "must be a boolean");
+    }
+  }
+
+  if (value.storeType !== undefined && !KEYSTORE_TYPES.includes(value.storeType as string)) {
+    report("androidSigning.storeType", `must be one of ${KEYSTORE_TYPES.join(", ")}`);
+  }
+  const algorithm = value.keyAlgorithm ?? "RSA";
+  if (typeof algorithm !== "string" || !ANDROID_KEY_ALGORITHMS.includes(algorithm)) {
+    report("androidSigning.keyAlgorithm", `must be one of ${ANDROID_KEY_ALGORITHMS.join(", ")}`);
+  } else if (value.keySize !== undefined && !ANDROID_KEY_SIZES[algorithm].includes(value.keySize as number)) {
+    report("androidSigning.keySize", `must be one of ${ANDROID_KEY_SIZES[algorithm].join(", ")} for ${algorithm} keys`);
+  }
+  if (value.validity !== undefined && (!Number.isInteger(value.validity) || (value.validity as number) < 1)) {
+    report("androidSigning.validity", "must be a positive number of days");
+  }
+
+  const name = value.distinguishedName;
+  if (name !== undefined) {
+    if (!isRecord(name)) {
+      report("androidSigning.distinguishedName", "must be an object");
+    } else {
+      for (const [key, field] of Object.entries(name)) {
+        const fieldPath = `androidSigning.distinguishedName.${key}`;
+        if (!ANDROID_DISTINGUISHED_NAME_KEYS.includes(key)) {
+          report(fieldPath, "unknown distinguished name attribute");
+        } else if (typeof field !== "string" || field.length === 0) {
+          report(fieldPath, "must be a non-empty string");
+        } else if (key === "country" && !COUNTRY_CODE.test(field)) {
+          report(fieldPath, `"${field}" must be a two-letter country code such as DE`);
+        }
+      }
+    }
+  }
+
+  const imported = value.import;
+  if (imported === undefined) {
+    return;
+  }
+  if (!isRecord(imported)) {
+    report("androidSigning.import", "must be an object with keystorePath and keyAlias");
+    return;
+  }
+  for (const key of Object.keys(imported)) {
+    if (!ANDROID_KEYSTORE_IMPORT_KEYS.includes(key)) {
+      report(`androidSigning.import.${key}`, "unknown keystore import setting");
+    }
+  }
+  if (typeof imported.keystorePath !== "string" || !projectFileExists(imported.keystorePath)) {
+    report(
+      "androidSigning.import.keystorePath",
+      `file "${imported.keystorePath}" not found (paths are relative to the Pulumi project directory)`
+    );
+  }
+  if (typeof imported.keyAlias !== "string" || imported.keyAlias.length === 0) {
+    report("androidSigning.import.keyAlias", "is required and must be the alias of the key in the keystore");
+  }
+  if (value.perEnvironment === true) {
+    if (typeof imported.environment !== "string" || !environmentNames.includes(imported.environment)) {
+      report("androidSigning.import.environment", "must name the environment whose key is imported");
+    }
+  } else if (imported.environment !== undefined) {
+    report("androidSigning.import.environment", "is only used with perEnvironment; the imported key is shared otherwise");
+  }
+  if (!options.androidKeystorePassword) {
+    report("androidKeystorePassword", "is required to import a keystore");
+  }
+}
+
+const IOS_SIGNING_KEYS = [
+  "email",
+  "keySize",
+  "certificatePath",
+  "provisioningProfiles",
+  "appStoreConnectApiKeyPath",
+  "appStoreConnectKeyId",
+  "appStoreConnectIssuerId",
+];
+
+const EMAIL = /^[^\s@\/]+@[^\s@\/]+\.[^\s@\/]+$/;
+const APP_STORE_CONNECT_KEY_ID = /^[A-Z0-9]{10}$/;
+const APP_STORE_CONNECT_ISSUER_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function checkIosSigning(
+  value: unknown,
+  environmentNames: string[],
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report("iosSigning", "must be an object");
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!IOS_SIGNING_KEYS.includes(key)) {
+      report(`iosSigning.${key}`, "unknown iOS signing setting");
+    }
+  }
+
+  if (typeof value.email !== "string" || !EMAIL.test(value.email)) {
+    report("iosSigning.email", "is required and must be an email address (it goes into the CSR)");
+  }
+  if (value.keySize !== undefined && value.keySize !== 2048 && value.keySize !== 4096) {
+    report("iosSigning.keySize", "must be 2048 or 4096");
+  }
+
+  const checkFile = (fieldPath: string, filePath: unknown): boolean => {
+    if (typeof filePath !== "string" || !projectFileExists(filePath)) {
+      report(fieldPath, `file "${filePath}" not found (paths are relative to the Pulumi project directory)`);
+      return false;
+    }
+    return true;
+  };
+
+  if (value.certificatePath !== undefined && checkFile("iosSigning.certificatePath", value.certificatePath)) {
+    try {
+      readCertificate(value.certificatePath as string);
+    } catch {
+      report("iosSigning.certificatePath", "is not a DER or PEM certificate (.cer)");
+    }
+  }
+
+  if (value.provisioningProfiles !== undefined) {
+    if (!isRecord(value.provisioningProfiles)) {
+      report("iosSigning.provisioningProfiles", "must map environment names to .mobileprovision files");
+    } else {
+      for (const [environment, profilePath] of Object.entries(value.provisioningProfiles)) {
+        const profileField = `iosSigning.provisioningProfiles.${environment}`;
+        if (!environmentNames.includes(environment)) {
+          report(profileField, `"${environment}" is not one of the environments`);
+        }
+        checkFile(profileField, profilePath);
+      }
+    }
+  }
+
+  if (value.appStoreConnectApiKeyPath !== undefined) {
+    checkFile("iosSigning.appStoreConnectApiKeyPath", value.appStoreConnectApiKeyPath);
+    const keyId = appStoreConnectKeyId(value as unknown as IosSigningConfig);
+    if (!keyId || !APP_STORE_CONNECT_KEY_ID.test(keyId)) {
+      report("iosSigning.appStoreConnectKeyId", "must be the 10-character key ID (or use the AuthKey_<KEY ID>.p8 file name)");
+    }
+    if (typeof value.appStoreConnectIssuerId !== "string" || !APP_STORE_CONNECT_ISSUER_ID.test(value.appStoreConnectIssuerId)) {
+      report("iosSigning.appStoreConnectIssuerId", "is required with an API key and must be the issuer ID (a UUID)");
+    }
+  } else if (value.appStoreConnectKeyId !== undefined || value.appStoreConnectIssuerId !== undefined) {
+    report("iosSigning.appStoreConnectApiKeyPath", "is required when a key ID or issuer ID is set");
+  }
+}
+
+const AUTH_KEYS = [
+  "email",
+  "anonymous",
+  "phone",
+  "google",
+  "apple",
+  "authorizedDomains",
+  "passwordPolicy",
+  "emailEnumerationProtection",
+  "blockingFunctions",
+  "mfa",
+];
+const AUTH_PROVIDER_KEYS: Record<string, string[]> = {
+  email: ["enabled", "passwordRequired"],
+  anonymous: ["enabled", "autoDelete"],
+  phone: ["enabled", "testPhoneNumbers"],
+  google: ["enabled", "clientId"],
+  apple: ["enabled", "serviceId", "teamId", "keyId", "bundleIds"],
+};
+const PASSWORD_POLICY_KEYS = [
+  "enforce",
+  "forceUpgradeOnSignin",
+  "minLength",
+  "maxLength",
+  "requireUppercase",
+  "requireLowercase",
+  "requireNumeric",
+  "requireNonAlphanumeric",
+];
+const MFA_KEYS = ["state", "factors", "totpAdjacentIntervals"];
+
+const DOMAIN_NAME = /^(localhost|([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})$/;
+const PHONE_NUMBER = /^\+[1-9][0-9]{6,14}$/;
+const VERIFICATION_CODE = /^[0-9]{6}$/;
+const GOOGLE_CLIENT_ID = /^[0-9]+-[a-z0-9]+\.apps\.googleusercontent\.com$/;
+// Apple team and key IDs
+const APPLE_ID = /^[A-Z0-9]{10}$/;
+const FUNCTION_NAME = /^[A-Za-z][A-Za-z0-9_-]{0,62}$/;
+
+function checkAuth(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const [key, setting] of Object.entries(value)) {
+    const settingPath = `${fieldPath}.${key}`;
+    if (!AUTH_KEYS.includes(key)) {
+      report(settingPath, "unknown authentication setting");
+    } else if (key in AUTH_PROVIDER_KEYS) {
+      if (!isRecord(setting)) {
+        report(settingPath, "must be an object");
+        continue;
+      }
+      for (const [providerKey, providerSetting] of Object.entries(setting)) {
+        const providerPath = `${settingPath}.${providerKey}`;
+        if (!AUTH_PROVIDER_KEYS[key].includes(providerKey)) {
+          report(providerPath, `unknown ${key} sign-in setting`);
+        } else if (["enabled", "passwordRequired", "autoDelete"].includes(providerKey)) {
+          if (typeof providerSetting !== "boolean") {
+            report(providerPath, "must be true or false");
+          }
+        } else if (providerKey === "testPhoneNumbers") {
+          if (!isRecord(providerSetting)) {
+            report(providerPath, "must map phone numbers to verification codes");
+            continue;
+          }
+          for (const [number, code] of Object.entries(providerSetting)) {
+            if (!PHONE_NUMBER.test(number)) {
+              report(`${providerPath}.${number}`, "must be a phone number in E.164 format, e.g. +16505551234");
+            } else if (typeof code !== "string" || !VERIFICATION_CODE.test(code)) {
+              report(`${providerPath}.${number}`, "must be a 6-digit verification code");
+            }
+          }
+        } else if (providerKey === "clientId") {
+          if (typeof providerSetting !== "string" || !GOOGLE_CLIENT_ID.test(providerSetting)) {
+            report(providerPath, "must be an OAuth client ID ending in .apps.googleusercontent.com");
+          }
+        } else if (providerKey === "teamId" || providerKey === "keyId") {
+          if (typeof providerSetting !== "string" || !APPLE_ID.test(providerSetting)) {
+            report(providerPath, "must be the 10-character ID from the Apple developer account");
+          }
+        } else if (providerKey === "serviceId") {
+          if (typeof providerSetting !== "string" || !IOS_BUNDLE_ID.test(providerSetting)) {
+            report(providerPath, "must be the Services ID, e.g. com.mycompany.myapp.signin");
+          }
+        } else if (providerKey === "bundleIds") {
+          if (!isStringList(providerSetting) || !providerSetting.every((id) => IOS_BUNDLE_ID.test(id))) {
+            report(providerPath, "must be a list of iOS bundle IDs");
+          }
+        }
+      }
+      if (typeof setting.enabled !== "boolean") {
+        report(`${settingPath}.enabled`, "is required and must be true or false");
+      }
+      if (key === "google" && setting.clientId === undefined) {
+        report(`${settingPath}.clientId`, "is required");
+      }
+      if (key === "apple") {
+        for (const required of ["serviceId", "teamId", "keyId"]) {
+          if (setting[required] === undefined) {
+            report(`${settingPath}.${required}`, "is required");
+          }
+        }
+      }
+    } else if (key === "authorizedDomains") {
+      if (!Array.isArray(setting) || !setting.every((domain) => typeof domain === "string" && DOMAIN_NAME.test(domain))) {
+        report(settingPath, "must be a list of domain names, e.g. app.example.com");
+      }
+    } else if (key === "emailEnumerationProtection") {
+      if (typeof setting !== "boolean") {
+        report(settingPath, "must be true or false");
+      }
+    } else if (key === "passwordPolicy") {
+      if (!isRecord(setting)) {
+        report(settingPath, "must be an object");
+        continue;
+      }
+      for (const [policyKey, policySetting] of Object.entries(setting)) {
+        const policyPath = `${settingPath}.${policyKey}`;
+        if (!PASSWORD_POLICY_KEYS.includes(policyKey)) {
+          report(policyPath, "unknown password policy setting");
+        } else if (policyKey === "minLength" || policyKey === "maxLength") {
+          if (
+            !Number.isInteger(policySetting) ||
+            (policySetting as number) < MIN_PASSWORD_LENGTH ||
+            (policySetting as number) > MAX_PASSWORD_LENGTH
+          ) {
+            report(policyPath, `must be a whole number between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH}`);
+          }
+        } else if (typeof policySetting !== "boolean") {
+          report(policyPath, "must be true or false");
+        }
+      }
+      const { minLength, maxLength } = setting as AuthPasswordPolicy;
+      if (Number.isInteger(minLength) && Number.isInteger(maxLength) && minLength! > maxLength!) {
+        report(`${settingPath}.maxLength`, "must not be shorter than minLength");
+      }
+    } else if (key === "blockingFunctions") {
+      if (!isRecord(setting)) {
+        report(settingPath, "must be an object");
+        continue;
+      }
+      for (const [event, target] of Object.entries(setting)) {
+        const eventPath = `${settingPath}.${event}`;
+        if (event === "forwardCredentials") {
+          if (!Array.isArray(target) || !target.every((credential) => FORWARDED_CREDENTIALS.includes(credential))) {
+            report(eventPath, `must be a list of ${FORWARDED_CREDENTIALS.join(", ")}`);
+          }
+        } else if (!BLOCKING_FUNCTION_EVENTS.includes(event)) {
+          report(eventPath, `unknown blocking function event (expected ${BLOCKING_FUNCTION_EVENTS.join(" or ")})`);
+        } else if (
+          typeof target !== "string" ||
+          !(FUNCTION_NAME.test(target) || /^https:\/\/[^\s\/]+\/\S*$/.test(target))
+        ) {
+          report(eventPath, "must be a function name or an https:// URL");
+        }
+      }
+    } else if (key === "mfa") {
+      if (!isRecord(setting)) {
+        report(settingPath, "must be an object");
+        continue;
+      }
+      for (const [mfaKey, mfaSetting] of Object.entries(setting)) {
+        const mfaPath = `${settingPath}.${mfaKey}`;
+        if (!MFA_KEYS.includes(mfaKey)) {
+          report(mfaPath, "unknown multi-factor setting");
+        } else if (mfaKey === "state") {
+          if (typeof mfaSetting !== "string" || !MFA_STATES.includes(mfaSetting)) {
+            report(mfaPath, `must be one of ${MFA_STATES.join(", ")}`);
+          }
+        } else if (mfaKey === "factors") {
+          if (!isStringList(mfaSetting) || !mfaSetting.every((factor) => MFA_FACTORS.includes(factor))) {
+            report(mfaPath, `must be a non-empty list of ${MFA_FACTORS.join(", ")}`);
+          }
+        } else if (
+          !Number.isInteger(mfaSetting) ||
+          (mfaSetting as number) < 0 ||
+          (mfaSetting as number) > MAX_TOTP_ADJACENT_INTERVALS
+        ) {
+          report(mfaPath, `must be a whole number between 0 and ${MAX_TOTP_ADJACENT_INTERVALS}`);
+        }
+      }
+      if (setting.state === undefined) {
+        report(`${settingPath}.state`, "is required");
+      }
+    }
+  }
+}
+
+const FUNCTIONS_KEYS = ["repository", "keepVersions", "deleteAfterDays", "runtimeRoles", "secrets"];
+
+const ARTIFACT_REGISTRY_REPOSITORY = /^[a-z]([a-z0-9-]{0,61}[a-z0-9])?$/;
+// Firebase's defineSecret() only accepts upper snake case names
+const FUNCTIONS_SECRET_ID = /^[A-Z][A-Z0-9_]{0,254}$/;
+
+function checkFunctions(
+  fieldPath: string,
+  value: unknown,
+  report: (path: string, message: string) => void
+): void {
+  if (!isRecord(value)) {
+    report(fieldPath, "must be an object");
+    return;
+  }
+
+  for (const [key, setting] of Object.entries(value)) {
+    const settingPath = `${fieldPath}.${key}`;
+    if (!FUNCTIONS_KEYS.includes(key)) {
+      report(settingPath, "unknown functions setting");
+    } else if (key === "repository") {
+      if (typeof setting !== "string" || !ARTIFACT_REGISTRY_REPOSITORY.test(setting)) {
+        report(settingPath, "must be a repository ID of lowercase letters, digits and '-'");
+      }
+    } else if (key === "keepVersions" || key === "deleteAfterDays") {
+      if (!Number.isInteger(setting) || (setting as number) < 1) {
+        report(settingPath, key === "keepVersions" ? "must be a positive whole number" : "must be a positive whole number of days");
+      }
+    } else if (key === "runtimeRoles") {
+      if (!Array.isArray(setting) || !setting.every((role) => typeof role === "string" && role.startsWith("roles/"))) {
+        report(settingPath, "must be a list of predefined roles (roles/...)");
+      }
+    } else if (key === "secrets") {
+      if (!Array.isArray(setting)) {
+        report(settingPath, "must be a list of secret IDs");
+        continue;
+      }
+      setting.forEach((secretId, index) => {
+        if (typeof secretId !== "string" || !FUNCTIONS_SECRET_ID.test(secretId)) {
+          report(`${settingPath}[${index}]`, "must be an upper snake case secret ID, e.g. STRIPE_API_KEY");
+        } else if (setting.indexOf(secretId) !== index) {
+          report(`${settingPath}[${index}]`, `duplicate secret "${secretId}"`);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * The secret values as an object. The stack config holds the secret as a JSON string,
+ * while deploy options passed to the CLI hold the object itself.
+ */
+function parseFunctionsSecretValues(
+  value: unknown,
+  report: (path: string, message: string) => void
+): FunctionsSecretValues | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  let values: unknown = value;
+  if (typeof value === "string") {
+    try {
+      values = JSON.parse(value);
+    } catch {
+      values = undefined;
+    }
+  }
+  const valid =
+    isRecord(values) &&
+    Object.values(values).every(
+      (secretValue) =>
+        typeof secretValue === "string" ||
+        (isRecord(secretValue) && Object.values(secretValue).every((envValue) => typeof envValue === "string"))
+    );
+  if (!valid) {
+    report("functionsSecretValues", 'must map secret IDs to a value or to values per environment, e.g. { "API_KEY": { "dev": "...", "prod": "..." } }');
+    return undefined;
+  }
+  return values as FunctionsSecretValues;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Checks a deployment configuration and returns every problem found, each with the
+ * path of the offending field. An empty list means the configuration is valid.
+ */
+export function validateDeployOptions(input: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    report("", "configuration must be a JSON object");
+    return issues;
+  }
+
+  const options = input as Record<string, unknown>;
+
+  for (const key of Object.keys(options)) {
+    if (!(DEPLOY_OPTION_KEYS as string[]).includes(key)) {
+      report(key, "unknown configuration key");
+    }
+  }
+
+  const requireString = (key: keyof DeployOptions): string | undefined => {
+    const value = options[key];
+    if (value === undefined || value === null || value === "") {
+      report(key, "is required");
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      report(key, "must be a string");
+      return undefined;
+    }
+    return value;
+  };
+
+  // Optional strings treat "" as unset (the setup script writes empty values)
+  const optionalString = (key: keyof DeployOptions): string | undefined => {
+    const value = options[key];
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      report(key, "must be a string");
+      return undefined;
+    }
+    return value;
+  };
+
+  const projectBaseName = requireString("projectBaseName");
+  requireString("organization");
+  const githubRepo = requireString("githubRepo");
+  const androidPackageName = requireString("androidPackageName");
+  const iosBundleId = requireString("iosBundleId");
+
+  // Environments
+  const environments: { name: string; path: string; overrides: Record<string, unknown> }[] = [];
+  const rawEnvironments = options.environments;
+  if (!Array.isArray(rawEnvironments) || rawEnvironments.length === 0) {
+    report("environments", "must be a non-empty array of environment names or definitions");
+  } else {
+    rawEnvironments.forEach((entry, index) => {
+      const path = `environments[${index}]`;
+      let name: unknown = entry;
+      let overrides: Record<string, unknown> = {};
+
+      if (typeof entry === "object" && entry !== null && !Array.isArray(entry)) {
+        ({ name, ...overrides } = entry as Record<string, unknown>);
+        if (typeof name !== "string") {
+          report(`${path}.name`, "is required and must be a string");
+          return;
+        }
+      } else if (typeof entry !== "string") {
+        report(path, "must be an environment name or an object with a name and overrides");
+        return;
+      }
+
+      if (!ENVIRONMENT_NAME.test(name as string)) {
+        report(path, `"${name}" is not a valid environment name (lowercase letters and digits, starting with a letter)`);
+        return;
+      }
+      if (environments.some((env) => env.name === name)) {
+        report(path, `duplicate environment "${name}"`);
+        return;
+      }
+      environments.push({ name: name as string, path, overrides });
+    });
+  }
+
+  // Per-environment overrides
+  environments.forEach(({ path, overrides }) => {
+    for (const [key, value] of Object.entries(overrides)) {
+      const fieldPath = `${path}.${key}`;
+      if (!(ENVIRONMENT_OVERRIDE_KEYS as string[]).includes(key)) {
+        report(fieldPath, "unknown environment setting");
+        continue;
+      }
+
+      if (key.startsWith("enable")) {
+        if (typeof value !== "boolean") {
+          report(fieldPath, "must be true or false");
+        }
+        continue;
+      }
+
+      if (key === "auth") {
+        checkAuth(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "functions") {
+        checkFunctions(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "firestoreBackups") {
+        checkFirestoreBackups(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "storage") {
+        checkStorage(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "iam") {
+        checkIam(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "workloadIdentity") {
+        checkWorkloadIdentity(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "githubEnvironments") {
+        checkGitHubEnvironments(fieldPath, value, report);
+        continue;
+      }
+      if (key === "keyRotation") {
+        checkKeyRotation(fieldPath, value, report);
+        continue;
+      }
+      if (key === "androidCertificateFingerprints") {
+        checkAndroidCertificateFingerprints(fieldPath, value, report);
+        continue;
+      }
+
+      if (key === "firestoreTtlFields") {
+        firestoreTtlFieldProblems(value).forEach((problem) => report(fieldPath, problem));
+        continue;
+      }
+
+      // null (or "") clears an inherited billing account / organization
+      if ((key === "billingAccount" || key === "organizationId") && (value === null || value === "")) {
+        continue;
+      }
+
+      if (typeof value !== "string") {
+        report(fieldPath, "must be a string");
+        continue;
+      }
+
+      if (key === "billingAccount" && !GCP_BILLING_ACCOUNT.test(value)) {
+        report(fieldPath, `"${value}" must look like 012345-6789AB-CDEF01`);
+      } else if (key === "organizationId" && !GCP_ORGANIZATION_ID.test(value)) {
+        report(fieldPath, `"${value}" must be numeric`);
+      } else if (key === "androidPackageName" && !ANDROID_PACKAGE_NAME.test(value)) {
+        report(fieldPath, `Android package name "${value}" is invalid`);
+      } else if (key === "iosBundleId" && !IOS_BUNDLE_ID.test(value)) {
+        report(fieldPath, `iOS bundle ID "${value}" is invalid`);
+      } else if (key === "firestoreRegion" && !FIRESTORE_REGIONS.includes(value)) {
+        report(fieldPath, `unknown Firestore location "${value}"`);
+      } else if (key === "functionsRegion" && !GCP_REGIONS.includes(value)) {
+        report(fieldPath, `unknown Cloud Functions region "${value}"`);
+      } else if ((key === "firestoreRulesPath" || key === "storageRulesPath") && !projectFileExists(value)) {
+        report(fieldPath, `rules file "${value}" not found`);
+      } else if (key === "firestoreIndexesPath") {
+        firestoreIndexFileProblems(value).forEach((problem) => report(fieldPath, problem));
+      }
+    }
+  });
+
+  // Derived identifiers per environment
+  environments.forEach(({ name, path, overrides }) => {
+    if (projectBaseName) {
+      const projectId = `${projectBaseName}-${name}`;
+      if (!GCP_PROJECT_ID.test(projectId)) {
+        report(
+          path,
+          `GCP project ID "${projectId}" must be 6-30 characters of lowercase letters, digits and hyphens, start with a letter and not end with a hyphen`
+        );
+      } else if (projectId.includes("google")) {
+        report(path, `GCP project ID "${projectId}" must not contain "google"`);
+      }
+    }
+
+    if (overrides.androidPackageName === undefined && androidPackageName && ANDROID_PACKAGE_NAME.test(androidPackageName)) {
+      const packageName = `${androidPackageName}.${name}`;
+      if (!ANDROID_PACKAGE_NAME.test(packageName)) {
+        report(path, `Android package name "${packageName}" is invalid`);
+      }
+    }
+
+    if (overrides.iosBundleId === undefined && iosBundleId && IOS_BUNDLE_ID.test(iosBundleId)) {
+      const bundleId = `${iosBundleId}.${name}`;
+      if (!IOS_BUNDLE_ID.test(bundleId)) {
+        report(path, `iOS bundle ID "${bundleId}" is invalid`);
+      }
+    }
+  });
+
+  // App identifiers
+  if (androidPackageName && !ANDROID_PACKAGE_NAME.test(androidPackageName)) {
+    report(
+      "androidPackageName",
+      `"${androidPackageName}" must be at least two dot-separated segments, each starting with a letter and containing only letters, digits and underscores`
+    );
+  }
+
+  if (iosBundleId && !IOS_BUNDLE_ID.test(iosBundleId)) {
+    report(
+      "iosBundleId",
+      `"${iosBundleId}" must be at least two dot-separated segments of letters, digits and hyphens`
+    );
+  }
+  if (options.androidSigning !== undefined) {
+    checkAndroidSigning(
+      options.androidSigning,
+      environments.map((env) => env.name),
+      options,
+      report
+    );
+  }
+  optionalString("androidKeystorePassword");
+  optionalString("androidKeyPassword");
+  if (options.iosSigning !== undefined) {
+    checkIosSigning(
+      options.iosSigning,
+      environments.map((env) => env.name),
+      report
+    );
+  }
+
+  // GitHub
+  if (githubRepo && !GITHUB_REPO.test(githubRepo)) {
+    report("githubRepo", `"${githubRepo}" must be in owner/repo format`);
+  }
+  optionalString("githubToken");
+  optionalString("gitlabToken");
+  optionalString("secretsFilePassphrase");
+  if (options.secretSinks !== undefined) {
+    checkSecretSinks(options.secretSinks, options, report);
+  }
+
+  // GCP
+  const billingAccount = optionalString("gcpBillingAccount");
+  if (billingAccount && !GCP_BILLING_ACCOUNT.test(billingAccount)) {
+    report("gcpBillingAccount", `"${billingAccount}" must look like 012345-6789AB-CDEF01`);
+  }
+
+  const organizationId = optionalString("gcpOrganizationId");
+  if (organizationId && !GCP_ORGANIZATION_ID.test(organizationId)) {
+    report("gcpOrganizationId", `"${organizationId}" must be numeric`);
+  }
+
+  // Regions
+  const firestoreRegion = optionalString("firestoreRegion");
+  if (firestoreRegion && !FIRESTORE_REGIONS.includes(firestoreRegion)) {
+    report("firestoreRegion", `unknown Firestore location "${firestoreRegion}"`);
+  }
+
+  const functionsRegion = optionalString("firebaseFunctionsRegion");
+  if (functionsRegion && !GCP_REGIONS.includes(functionsRegion)) {
+    report("firebaseFunctionsRegion", `unknown Cloud Functions region "${functionsRegion}"`);
+  }
+
+  // Security rules
+  for (const key of ["firestoreRulesPath", "storageRulesPath"] as const) {
+    const rulesPath = optionalString(key);
+    if (rulesPath && !projectFileExists(rulesPath)) {
+      report(key, `rules file "${rulesPath}" not found (paths are relative to the Pulumi project directory)`);
+    }
+  }
+  optionalString("rulesTestCommand");
+
+  // Firestore indexes and TTL policies
+  const firestoreIndexesPath = optionalString("firestoreIndexesPath");
+  if (firestoreIndexesPath) {
+    firestoreIndexFileProblems(firestoreIndexesPath).forEach((problem) => report("firestoreIndexesPath", problem));
+  }
+  if (options.firestoreTtlFields !== undefined) {
+    firestoreTtlFieldProblems(options.firestoreTtlFields).forEach((problem) => report("firestoreTtlFields", problem));
+  }
+  if (options.firestoreBackups !== undefined) {
+    checkFirestoreBackups("firestoreBackups", options.firestoreBackups, report);
+  }
+
+  // Authentication
+  if (options.auth !== undefined) {
+    checkAuth("auth", options.auth, report);
+  }
+  optionalString("authGoogleClientSecret");
+  optionalString("authApplePrivateKey");
+
+  // Cloud Functions
+  if (options.functions !== undefined) {
+    checkFunctions("functions", options.functions, report);
+  }
+  const functionsSecretValues = parseFunctionsSecretValues(options.functionsSecretValues, report);
+
+  // Storage
+  if (options.storage !== undefined) {
+    checkStorage("storage", options.storage, report);
+  }
+
+  // IAM
+  if (options.iam !== undefined) {
+    checkIam("iam", options.iam, report);
+  }
+  if (options.workloadIdentity !== undefined) {
+    checkWorkloadIdentity("workloadIdentity", options.workloadIdentity, report);
+  }
+  if (options.keyRotation !== undefined) {
+    checkKeyRotation("keyRotation", options.keyRotation, report);
+  }
+  if (options.githubEnvironments !== undefined) {
+    checkGitHubEnvironments("githubEnvironments", options.githubEnvironments, report);
+  }
+  if (options.androidCertificateFingerprints !== undefined) {
+    checkAndroidCertificateFingerprints("androidCertificateFingerprints", options.androidCertificateFingerprints, report);
+  }
+
+  const githubNameTemplate = optionalString("githubNameTemplate");
+  if (githubNameTemplate !== undefined) {
+    const placeholders = ["{NAME}", "{ENV}"].every((p) => githubNameTemplate.split(p).length === 2);
+    const names = [githubValueName(githubNameTemplate, "NAME", "ENV"), githubValueName(githubNameTemplate, "NAME")];
+    if (!placeholders || !names.every((name) => GITHUB_VALUE_NAME.test(name))) {
+      report(
+        "githubNameTemplate",
+        `"${githubNameTemplate}" must contain {NAME} and {ENV} once each, plus letters, digits and "_", and not start with a digit or GITHUB_`
+      );
+    }
+  }
+
+  // Pulumi backend
+  const backendUrl = optionalString("backendUrl");
+  if (backendUrl && !BACKEND_URL.test(backendUrl)) {
+    report("backendUrl", `"${backendUrl}" must be an https://, file://, s3://, gs:// or azblob:// URL`);
+  }
+
+  const stackNameTemplate = optionalString("stackNameTemplate");
+  if (stackNameTemplate && !STACK_NAME_TEMPLATE.test(stackNameTemplate)) {
+    report(
+      "stackNameTemplate",
+      `"${stackNameTemplate}" must be up to three /-separated parts of letters, digits, ".", "_", "-" and the {user} / {projectBaseName} placeholders`
+    );
+  }
+
+  const secretsProvider = optionalString("secretsProvider");
+  if (secretsProvider && !SECRETS_PROVIDER.test(secretsProvider)) {
+    report("secretsProvider", `"${secretsProvider}" must be "default", "passphrase" or a KMS URL (gcpkms://, awskms://, ...)`);
+  }
+
+  const passphraseFile = optionalString("secretsPassphraseFile");
+  if (passphraseFile && secretsProvider && secretsProvider !== "passphrase") {
+    report("secretsPassphraseFile", `only applies to the passphrase secrets provider, not "${secretsProvider}"`);
+  }
+
+  // Feature flags
+  for (const key of ["enableAuth", "enableFirestore", "enableFunctions", "enableStorage", "enableHosting"] as const) {
+    if (options[key] !== undefined && typeof options[key] !== "boolean") {
+      report(key, "must be true or false");
+    }
+  }
+
+  // Cross-references in the IAM and GitHub settings, once each environment's settings are known
+  if (issues.length === 0) {
+    const reported = new Set<string>();
+    const reportOnce = (path: string, message: string) => {
+      if (!reported.has(`${path}: ${message}`)) {
+        reported.add(`${path}: ${message}`);
+        report(path, message);
+      }
+    };
+    const entries = (options.environments ?? []) as unknown[];
+    const githubEnvironmentUsers = new Map<string, string>();
+    const declaredSecrets = new Set<string>();
+    // Secret IDs the secretManager sink creates in each project
+    const sinkSecretIds = ((options.secretSinks ?? []) as SecretSinkConfig[]).some((sink) => sink.type === "secretManager")
+      ? Object.keys(GITHUB_VALUE_KINDS)
+          .filter((name) => GITHUB_VALUE_KINDS[name] === "secret")
+          .map((name) => githubValueName((options.githubNameTemplate as string) || DEFAULT_GITHUB_NAME_TEMPLATE, name))
+      : [];
+    resolveEnvironments(input as DeployOptions).forEach((env, index) => {
+      // Environment-scoped secrets have unsuffixed names, so environments can't share one
+      const githubEnvironment = githubEnvironmentName(env.environment, env.githubEnvironments);
+      if (githubEnvironment !== undefined) {
+        const user = githubEnvironmentUsers.get(githubEnvironment);
+        if (user) {
+          report(`environments[${index}].githubEnvironments.name`, `GitHub environment "${githubEnvironment}" is already used by ${user}`);
+        }
+        githubEnvironmentUsers.set(githubEnvironment, env.environment);
+      }
+
+      const entry = entries[index];
+      const functionsPath = isRecord(entry) && isRecord(entry.functions) ? `environments[${index}].functions` : "functions";
+      if (env.enableFunctions) {
+        for (const secretId of env.functions.secrets ?? []) {
+          declaredSecrets.add(secretId);
+          const secretValue = functionsSecretValues?.[secretId];
+          if (secretValue === undefined || (typeof secretValue !== "string" && secretValue[env.environment] === undefined)) {
+            reportOnce("functionsSecretValues", `has no value for ${secretId} in ${env.environment}`);
+          }
+          if (sinkSecretIds.includes(secretId)) {
+            reportOnce(`${functionsPath}.secrets`, `${secretId} is also written by the secretManager secret sink`);
+          }
+        }
+      }
+      const authPath = isRecord(entry) && isRecord(entry.auth) ? `environments[${index}].auth` : "auth";
+      if (env.enableAuth) {
+        if (env.auth.google && !options.authGoogleClientSecret) {
+          reportOnce("authGoogleClientSecret", "is required when Google sign-in is configured");
+        }
+        if (env.auth.apple && !options.authApplePrivateKey) {
+          reportOnce("authApplePrivateKey", "is required when Sign in with Apple is configured");
+        }
+        const blockingFunctions = Object.entries(env.auth.blockingFunctions ?? {}).filter(
+          ([event, target]) => event !== "forwardCredentials" && !(target as string).startsWith("https://")
+        );
+        if (blockingFunctions.length > 0 && !env.enableFunctions) {
+          reportOnce(`${authPath}.blockingFunctions`, "refers to functions by name, which needs enableFunctions (or use full URLs)");
+        }
+      }
+
+      // Report each problem where the offending setting was written
+      const overrides = isRecord(entry) && isRecord(entry.iam) ? entry.iam : {};
+      const fieldPath = (key: keyof IamConfig) => key in overrides ? `environments[${index}].iam` : "iam";
+      checkIamReferences(fieldPath, env.iam, reportOnce);
+    });
+
+    for (const secretId of Object.keys(functionsSecretValues ?? {})) {
+      if (!declaredSecrets.has(secretId)) {
+        report(`functionsSecretValues.${secretId}`, "is not in functions.secrets of any environment with functions");
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validates and returns the configuration, throwing a ConfigValidationError listing
+ * every problem if it is invalid.
+ */
+export function assertValidDeployOptions(input: unknown): DeployOptions {
+  const issues = validateDeployOptions(input);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return input as DeployOptions;
+}
+
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => `  - ${issue.path || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+// ============================================================================
+// Environment resolution
+// ============================================================================
+
+export function environmentName(entry: EnvironmentEntry): string {
+  return typeof entry === "string" ? entry : entry.name;
+}
+
+export function environmentNames(options: Pick<DeployOptions, "environments">): string[] {
+  return options.environments.map(environmentName);
+}
+
+/**
+ * Resolves every environment to its full `FirebaseEnvironmentConfig`: global settings
+ * (with their defaults) first, then the environment's own overrides on top.
+ */
+export function resolveEnvironments(options: DeployOptions): FirebaseEnvironmentConfig[] {
+  return options.environments.map((entry) => {
+    const { name, ...overrides } = typeof entry === "string" ? { name: entry } : entry;
+
+    const resolved: FirebaseEnvironmentConfig = {
+      projectName: `${options.projectBaseName}-${name}`,
+      environment: name,
+      billingAccount: options.gcpBillingAccount,
+      organizationId: options.gcpOrganizationId,
+      enableAuth: options.enableAuth ?? true,
+      enableFirestore: options.enableFirestore ?? true,
+      enableFunctions: options.enableFunctions ?? true,
+      enableStorage: options.enableStorage ?? true,
+      enableHosting: options.enableHosting ?? false,
+      androidPackageName: `${options.androidPackageName}.${name}`,
+      iosBundleId: `${options.iosBundleId}.${name}`,
+      firestoreRegion: options.firestoreRegion || "eur3",
+      functionsRegion: options.firebaseFunctionsRegion || "europe-west1",
+      firestoreRulesPath: options.firestoreRulesPath || DEFAULT_FIRESTORE_RULES_PATH,
+      storageRulesPath: options.storageRulesPath || DEFAULT_STORAGE_RULES_PATH,
+      auth: options.auth ?? {},
+      functions: options.functions ?? {},
+      firestoreIndexesPath: options.firestoreIndexesPath || undefined,
+      firestoreTtlFields: options.firestoreTtlFields ?? [],
+      firestoreBackups: options.firestoreBackups ?? {},
+      storage: options.storage ?? {},
+      iam: options.iam ?? {},
+      githubRepo: options.githubRepo,
+      workloadIdentity: options.workloadIdentity ?? {},
+      keyRotation: options.keyRotation ?? {},
+      githubEnvironments: options.githubEnvironments ?? {},
+      androidCertificateFingerprints: options.androidCertificateFingerprints ?? [],
+    };
+
+    for (const [key, value] of Object.entries(overrides)) {
+      if (key === "auth" && value) {
+        // Auth, functions, backup and storage settings are merged setting by setting
+        resolved.auth = { ...resolved.auth, ...(value as AuthConfig) };
+      } else if (key === "functions" && value) {
+        resolved.functions = { ...resolved.functions, ...(value as FunctionsConfig) };
+      } else if (key === "firestoreBackups" && value) {
+        resolved.firestoreBackups = { ...resolved.firestoreBackups, ...(value as FirestoreBackupConfig) };
+      } else if (key === "storage" && value) {
+        resolved.storage = { ...resolved.storage, ...(value as StorageConfig) };
+      } else if (key === "iam" && value) {
+        resolved.iam = { ...resolved.iam, ...(value as IamConfig) };
+      } else if (key === "workloadIdentity" && value) {
+        resolved.workloadIdentity = { ...resolved.workloadIdentity, ...(value as WorkloadIdentityConfig) };
+      } else if (key === "keyRotation" && value) {
+        resolved.keyRotation = { ...resolved.keyRotation, ...(value as KeyRotationConfig) };
+      } else if (key === "githubEnvironments" && value) {
+        resolved.githubEnvironments = { ...resolved.githubEnvironments, ...(value as GitHubEnvironmentConfig) };
+      } else if (value !== undefined) {
+        (resolved as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+
+    // Empty or null clears the inherited value
+    resolved.billingAccount = resolved.billingAccount || undefined;
+    resolved.organizationId = resolved.organizationId || undefined;
+
+    // Production data is protected unless explicitly turned off
+    resolved.firestoreBackups = {
+      ...resolved.firestoreBackups,
+      deleteProtection: resolved.firestoreBackups.deleteProtection ?? name === "prod",
+    };
+
+    return resolved;
+  });
+}
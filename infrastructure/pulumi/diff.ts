@@ -0,0 +1,232 @@
+import { EngineEvent, OpType } from '@pulumi/pulumi/automation';
+
+export type ChangeKind = 'create' | 'update' | 'replace' | 'delete';
+
+export interface ResourceChange {
+  urn: string;
+  type: string;
+  name: string;
+  kind: ChangeKind;
+  environment: string;
+  protected: boolean;
+  diffs: string[];
+  replaceKeys: string[];
+}
+
+export interface ChangeGroupingOptions {
+  projectBaseName: string;
+  environments: string[];
+}
+
+// Name of the group used for resources that don't belong to a single environment
+// (Android signing key, repository-wide GitHub secrets, ...)
+export const SHARED_GROUP = 'shared';
+
+const OP_KINDS: Partial<Record<OpType, ChangeKind>> = {
+  'create': 'create',
+  'import': 'create',
+  'update': 'update',
+  'replace': 'replace',
+  'create-replacement': 'replace',
+  'delete-replaced': 'replace',
+  'delete': 'delete',
+};
+
+const KIND_ICONS: Record<ChangeKind, string> = {
+  create: '➕',
+  update: '🔄',
+  replace: '♻️ ',
+  delete: '➖',
+};
+
+/**
+ * Returns the logical resource name from a Pulumi URN
+ * (urn:pulumi:<stack>::<project>::<type>::<name>).
+ */
+export function resourceNameFromUrn(urn: string): string {
+  const parts = urn.split('::');
+  return parts[parts.length - 1];
+}
+
+/**
+ * Maps a resource name to the environment it belongs to. Per-environment resources are
+ * prefixed with the project name (`my-app-dev-sa`) or suffixed with the environment
+ * (`secret-firebase-project-id-dev`); everything else is shared.
+ */
+export function environmentForResource(name: string, options: ChangeGroupingOptions): string {
+  for (const env of options.environments) {
+    if (name.startsWith(`${options.projectBaseName}-${env}-`) || name.endsWith(`-${env}`)) {
+      return env;
+    }
+  }
+  return SHARED_GROUP;
+}
+
+/**
+ * Collects resource changes from the engine event stream of a preview or update.
+ *
+ * A replacement shows up as several steps (create-replacement, replace, delete-replaced),
+ * so changes are keyed by URN and the strongest kind wins.
+ */
+export class ResourceChangeCollector {
+  private readonly changes = new Map<string, ResourceChange>();
+
+  constructor(private readonly options: ChangeGroupingOptions) {}
+
+  onEvent = (event: EngineEvent): void => {
+    const metadata = event.resourcePreEvent?.metadata;
+    if (!metadata) {
+      return;
+    }
+
+    const kind = OP_KINDS[metadata.op];
+    if (!kind || metadata.type === 'pulumi:pulumi:Stack' || metadata.type.startsWith('pulumi:providers:')) {
+      return;
+    }
+
+    const existing = this.changes.get(metadata.urn);
+    const name = resourceNameFromUrn(metadata.urn);
+
+    this.changes.set(metadata.urn, {
+      urn: metadata.urn,
+      type: metadata.type,
+      name,
+      kind: existing?.kind === 'replace' ? 'replace' : kind,
+      environment: environmentForResource(name, this.options),
+      protected: Boolean(existing?.protected || metadata.old?.protect || metadata.new?.protect),
+      diffs: metadata.diffs ?? existing?.diffs ?? [],
+      replaceKeys: metadata.keys ?? existing?.replaceKeys ?? [],
+    });
+  };
+
+  get all(): ResourceChange[] {
+    return [...this.changes.values()];
+  }
+
+  /**
+   * Replacements and deletions of resources marked `protect: true`. Pulumi refuses to
+   * perform these, so they need attention before anything is applied.
+   */
+  get protectedViolations(): ResourceChange[] {
+    return this.all.filter(c => c.protected && (c.kind === 'replace' || c.kind === 'delete') && !isKeystore(c));
+  }
+
+  /**
+   * Android keystores (see keystore.ts) that would be replaced or deleted, or created in
+   * place of one keytool generated before. A new upload key can't sign updates to an app
+   * already on Google Play, so these get their own warning.
+   */
+  get keystoreReplacements(): ResourceChange[] {
+    const droppedKeytoolKeystores = new Set(
+      this.all
+        .filter(c => c.kind === 'delete' && c.type === 'command:local:Command' && c.name.endsWith('-keystore-base64'))
+        .map(c => c.name.slice(0, -'-base64'.length))
+    );
+    return this.all.filter(c =>
+      isKeystore(c) &&
+      (c.kind === 'replace' || c.kind === 'delete' || (c.kind === 'create' && droppedKeytoolKeystores.has(c.name)))
+    );
+  }
+}
+
+function isKeystore(change: ResourceChange): boolean {
+  return change.type === 'pulumi-nodejs:dynamic:Resource' && change.name.endsWith('-keystore');
+}
+
+
+/**
+ * Groups changes by environment, keeping the configured environment order and putting
+ * shared resources last.
+ */
+export function groupChangesByEnvironment(
+  changes: ResourceChange[],
+  environments: string[]
+): Map<string, ResourceChange[]> {
+  const groups = new Map<string, ResourceChange[]>();
+  for (const group of [...environments, SHARED_GROUP]) {
+    const inGroup = changes.filter(c => c.environment === group);
+    if (inGroup.length > 0) {
+      groups.set(group, inGroup);
+    }
+  }
+  return groups;
+}
+
+export function printResourceChanges(changes: ResourceChange[], environments: string[]): void {
+  console.log('📝 Planned Changes:');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  if (changes.length === 0) {
+    console.log('  ✅ No changes. Infrastructure is up to date.');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    return;
+  }
+
+  for (const [group, inGroup] of groupChangesByEnvironment(changes, environments)) {
+    const title = group === SHARED_GROUP ? 'Shared resources' : `Environment: ${group.toUpperCase()}`;
+    console.log(`\n  📦 ${title}`);
+    for (const change of inGroup) {
+      const details = change.kind === 'replace' && change.replaceKeys.length > 0
+        ? ` (replace on: ${change.replaceKeys.join(', ')})`
+        : change.kind === 'update' && change.diffs.length > 0
+          ? ` (changed: ${change.diffs.join(', ')})`
+          : '';
+      const line = `     └─ ${KIND_ICONS[change.kind]} ${change.kind.padEnd(7)} ${change.type} ${change.name}${details}`;
+      if (change.protected && (change.kind === 'replace' || change.kind === 'delete')) {
+        console.log(`${line}  🚨 PROTECTED`);
+      } else {
+        console.log(line);
+      }
+    }
+  }
+
+  const counts: Record<ChangeKind, number> = { create: 0, update: 0, replace: 0, delete: 0 };
+  for (const change of changes) {
+    counts[change.kind]++;
+  }
+  console.log(`\n  Total: ${counts.create} to create, ${counts.update} to update, ${counts.replace} to replace, ${counts.delete} to delete`);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
+
+export function printProtectedViolations(violations: ResourceChange[]): void {
+  if (violations.length === 0) {
+    return;
+  }
+
+  console.log('🚨🚨🚨 PROTECTED RESOURCES WOULD BE REPLACED OR DELETED 🚨🚨🚨');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const change of violations) {
+    console.log(`  🚨 ${change.kind.toUpperCase()}: ${change.type} ${change.name}`);
+    if (change.replaceKeys.length > 0) {
+      console.log(`     └─ Caused by: ${change.replaceKeys.join(', ')}`);
+    }
+  }
+  console.log('\n  Pulumi will refuse to touch protected resources and the deployment will fail.');
+  console.log('  For a production project this usually means a config change would recreate');
+  console.log('  the project and lose its data. Revert the change unless this is intended.');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
+
+export function printKeystoreReplacements(replacements: ResourceChange[]): void {
+  if (replacements.length === 0) {
+    return;
+  }
+
+  console.log('🚨🚨🚨 ANDROID SIGNING KEYS WOULD BE REPLACED OR DELETED 🚨🚨🚨');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const change of replacements) {
+    const kind = change.kind === 'create' ? 'NEW KEY' : change.kind.toUpperCase();
+    console.log(`  🚨 ${kind}: ${change.name}`);
+    if (change.replaceKeys.length > 0) {
+      console.log(`     └─ Caused by: ${change.replaceKeys.join(', ')}`);
+    }
+  }
+  console.log('\n  A new upload key can\'t sign updates to an app already on Google Play until the');
+  console.log('  key is reset through the Play Console. Replacing or deleting a keystore fails');
+  console.log('  because keystores are protected; a NEW KEY means a keystore generated with');
+  console.log('  keytool is not being adopted (deploy with `npm run cli -- deploy`, not `pulumi up`).');
+  console.log('  Back up the current keystore (androidKeystore, or android_keystore_<env>) first:');
+  console.log('    pulumi stack output androidKeystore --show-secrets | base64 --decode > upload.keystore');
+  console.log('  and run `pulumi state unprotect <urn>` only if a new key is really intended.');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
@@ -0,0 +1,157 @@
+import { EngineEvent, StepEventMetadata, UpdateSummary } from '@pulumi/pulumi/automation';
+import {
+  ChangeGroupingOptions,
+  SHARED_GROUP,
+  environmentForResource,
+  resourceNameFromUrn,
+} from './diff';
+
+export type DriftKind = 'changed' | 'deleted';
+
+export interface ResourceDrift {
+  urn: string;
+  type: string;
+  name: string;
+  category: string;
+  environment: string;
+  kind: DriftKind;
+  properties: string[];
+}
+
+// Outputs that change whenever anything else in the same IAM policy or object changes,
+// so comparing them would report drift on every unrelated console edit
+const IGNORED_OUTPUTS = ['etag', '__meta'];
+
+const CATEGORIES: Record<string, string> = {
+  'gcp:projects/iAMMember:IAMMember': 'IAM binding',
+  'gcp:projects/service:Service': 'Enabled API',
+  'gcp:storage/bucket:Bucket': 'Storage bucket',
+  'gcp:firestore/index:Index': 'Firestore index',
+  'gcp:firestore/field:Field': 'Firestore field',
+  'gcp:firestore/database:Database': 'Firestore database',
+  'gcp:firestore/backupSchedule:BackupSchedule': 'Firestore backup schedule',
+  'gcp:cloudscheduler/job:Job': 'Scheduled job',
+  'gcp:serviceaccount/account:Account': 'Service account',
+  'gcp:serviceaccount/key:Key': 'Service account key',
+  'gcp:projects/iAMCustomRole:IAMCustomRole': 'Custom role',
+  'gcp:iam/workloadIdentityPool:WorkloadIdentityPool': 'Workload identity pool',
+  'gcp:iam/workloadIdentityPoolProvider:WorkloadIdentityPoolProvider': 'Workload identity provider',
+  'gcp:secretmanager/secret:Secret': 'Secret Manager secret',
+  'gcp:organizations/project:Project': 'Project',
+};
+
+function changedOutputs(metadata: StepEventMetadata): string[] {
+  if (metadata.diffs && metadata.diffs.length > 0) {
+    return metadata.diffs;
+  }
+
+  const before = metadata.old?.outputs ?? {};
+  const after = metadata.new?.outputs ?? {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...keys]
+    .filter(key => !IGNORED_OUTPUTS.includes(key))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .sort();
+}
+
+/**
+ * Collects out-of-band changes from the engine event stream of a preview-only refresh.
+ * Depending on the CLI version, drift is reported either as update/delete steps or as
+ * refresh steps with differing old and new outputs, so both are handled.
+ */
+export class DriftCollector {
+  private readonly drift = new Map<string, ResourceDrift>();
+
+  constructor(private readonly options: ChangeGroupingOptions) {}
+
+  onEvent = (event: EngineEvent): void => {
+    // Only completed steps carry both the old and the refreshed state
+    const metadata = event.resOutputsEvent?.metadata;
+    if (!metadata || metadata.type === 'pulumi:pulumi:Stack' || metadata.type.startsWith('pulumi:providers:')) {
+      return;
+    }
+
+    let kind: DriftKind | undefined;
+    let properties: string[] = [];
+
+    if (metadata.op === 'delete' || (metadata.op === 'refresh' && metadata.old && !metadata.new)) {
+      kind = 'deleted';
+    } else if (metadata.op === 'update' || metadata.op === 'refresh') {
+      properties = changedOutputs(metadata);
+      if (metadata.op === 'update' || properties.length > 0) {
+        kind = 'changed';
+      }
+    }
+
+    if (!kind) {
+      return;
+    }
+
+    const name = resourceNameFromUrn(metadata.urn);
+    this.drift.set(metadata.urn, {
+      urn: metadata.urn,
+      type: metadata.type,
+      name,
+      category: CATEGORIES[metadata.type] ?? metadata.type,
+      environment: environmentForResource(name, this.options),
+      kind,
+      properties,
+    });
+  };
+
+  get all(): ResourceDrift[] {
+    return [...this.drift.values()];
+  }
+}
+
+export function printLastUpdate(update: UpdateSummary | undefined): void {
+  console.log('🕒 Last Update:');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  if (!update) {
+    console.log('  ℹ️  Stack has never been updated');
+  } else {
+    const icon = update.result === 'succeeded' ? '✅' : update.result === 'failed' ? '❌' : '⏳';
+    console.log(`  ${icon} ${update.kind} #${update.version}: ${update.result}`);
+    console.log(`     └─ Started:  ${new Date(update.startTime).toISOString()}`);
+    if (update.endTime) {
+      console.log(`     └─ Finished: ${new Date(update.endTime).toISOString()}`);
+    }
+    if (update.message) {
+      console.log(`     └─ Message:  ${update.message}`);
+    }
+  }
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
+
+export function printDrift(drift: ResourceDrift[], environments: string[]): void {
+  console.log('🧭 Drift Since Last Deploy:');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+  if (drift.length === 0) {
+    console.log('  ✅ No drift. Cloud resources match the stack state.');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    return;
+  }
+
+  for (const group of [...environments, SHARED_GROUP]) {
+    const inGroup = drift.filter(d => d.environment === group);
+    if (inGroup.length === 0) {
+      continue;
+    }
+
+    const title = group === SHARED_GROUP ? 'Shared resources' : `Environment: ${group.toUpperCase()}`;
+    console.log(`\n  📦 ${title}`);
+    for (const d of inGroup) {
+      if (d.kind === 'deleted') {
+        console.log(`     └─ ➖ ${d.category} ${d.name}: deleted outside of Pulumi`);
+      } else {
+        const properties = d.properties.length > 0 ? ` (${d.properties.join(', ')})` : '';
+        console.log(`     └─ 🔄 ${d.category} ${d.name}: modified${properties}`);
+      }
+    }
+  }
+
+  console.log(`\n  Total: ${drift.length} drifted resource(s)`);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
@@ -1,6 +1,29 @@
 import * as gcp from "@pulumi/gcp";
 import * as pulumi from "@pulumi/pulumi";
-import * as command from "@pulumi/command";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import {
+  FirestoreBackupConfig,
+  FirestoreBackupsOutputs,
+  FirestoreTtlField,
+  setupFirestoreBackups,
+  setupFirestoreIndexes,
+} from "./firestore";
+import {
+  IamConfig,
+  KeyRotationConfig,
+  KeyRotationState,
+  WorkloadIdentityConfig,
+  setupIam,
+  setupServiceAccountKeys,
+  setupWorkloadIdentity,
+} from "./iam";
+import type { GitHubEnvironmentConfig } from "./github";
+import { AndroidSigningKeyOutputs, normalizeFingerprint } from "./android";
+import { StorageBucketsOutputs, StorageConfig, setupStorageBuckets } from "./storage";
+import { AuthConfig, AuthOutputs, AuthSecrets, setupAuth } from "./auth";
+import { FunctionsConfig, FunctionsOutputs, FunctionsSecretValues, setupFunctions } from "./functions";
+import { projectPath } from "./paths";
 
 export interface FirebaseEnvironmentConfig {
   projectName: string;
@@ -16,6 +39,26 @@ export interface FirebaseEnvironmentConfig {
   iosBundleId: string;
   firestoreRegion: string;
   functionsRegion: string;
+  firestoreRulesPath: string; // relative to the Pulumi project directory
+  storageRulesPath: string;
+  auth: AuthConfig; // applied when enableAuth
+  authSecrets?: AuthSecrets; // shared by all environments, from the stack's secrets
+  functions: FunctionsConfig; // applied when enableFunctions
+  functionsSecretValues?: pulumi.Output<FunctionsSecretValues>; // from the stack's secrets
+  firestoreIndexesPath?: string; // firestore.indexes.json format
+  firestoreTtlFields: FirestoreTtlField[];
+  firestoreBackups: FirestoreBackupConfig;
+  storage: StorageConfig;
+  existingDefaultBucketLocation?: string; // maintained by the CLI, see storage.ts
+  iam: IamConfig;
+  githubRepo: string;
+  workloadIdentity: WorkloadIdentityConfig;
+  keyRotation: KeyRotationConfig;
+  keyRotationState?: KeyRotationState; // maintained by the CLI, see key-rotation.ts
+  githubEnvironments: GitHubEnvironmentConfig;
+  /** Registered on the Android app besides the signing keys' own, e.g. Play App Signing's */
+  androidCertificateFingerprints: string[];
+  androidSigningKeys?: AndroidSigningKeyOutputs[]; // keys this environment's builds are signed with
 }
 
 export interface FirebaseEnvironmentOutputs {
@@ -23,9 +66,37 @@ export interface FirebaseEnvironmentOutputs {
   projectNumber: pulumi.Output<string>;
   webApiKey: pulumi.Output<string>;
   serviceAccountEmail: pulumi.Output<string>;
-  serviceAccountKey: pulumi.Output<string>;
+  // Exactly one of these, depending on workloadIdentity.enabled
+  serviceAccountKey?: pulumi.Output<string>;
+  workloadIdentityProvider?: pulumi.Output<string>;
   googleServicesJson: pulumi.Output<string>;
   googleServicesPlist: pulumi.Output<string>;
+  firestoreBackups?: FirestoreBackupsOutputs;
+  storageBuckets: pulumi.Output<string>[];
+  serviceAccountEmails: pulumi.Output<Record<string, string>>;
+  /** Fingerprints registered on the Android app, lowercase hex */
+  androidCertificateFingerprints: pulumi.Output<{ sha1: string[]; sha256: string[] }>;
+  auth?: AuthOutputs;
+  functions?: FunctionsOutputs;
+  /** Set when this program enabled Secret Manager, for the secretManager secret sink */
+  secretManagerApi?: gcp.projects.Service;
+}
+
+/**
+ * Builds a ruleset source from a rules file. The fingerprint is the SHA-256 of the
+ * content, so the deployed ruleset can be traced back to the file version.
+ */
+function rulesetSource(rulesPath: string, name: string): gcp.types.input.firebaserules.RulesetSource {
+  const content = fs.readFileSync(projectPath(rulesPath), "utf-8");
+  return {
+    files: [
+      {
+        name,
+        content,
+        fingerprint: crypto.createHash("sha256").update(content).digest("base64"),
+      },
+    ],
+  };
 }
 
 export function createFirebaseEnvironment(
@@ -45,6 +116,23 @@ export function createFirebaseEnvironment(
     iosBundleId,
     firestoreRegion,
     functionsRegion,
+    firestoreRulesPath,
+    storageRulesPath,
+    auth,
+    authSecrets = {},
+    functions,
+    functionsSecretValues,
+    firestoreIndexesPath,
+    firestoreTtlFields,
+    firestoreBackups,
+    storage,
+    existingDefaultBucketLocation,
+    iam,
+    githubRepo,
+    workloadIdentity,
+    keyRotationState,
+    androidCertificateFingerprints,
+    androidSigningKeys = [],
   } = config;
 
   // ============================================================================
@@ -89,21 +177,42 @@ export function createFirebaseEnvironment(
 
   if (enableFirestore) {
     requiredApis.push("firestore.googleapis.com");
+    if (firestoreBackups.exportSchedule) {
+      requiredApis.push("cloudscheduler.googleapis.com");
+      requiredApis.push("storage.googleapis.com");
+    }
   }
 
   if (enableStorage) {
     requiredApis.push("storage.googleapis.com");
     requiredApis.push("storage-api.googleapis.com");
+    requiredApis.push("firebasestorage.googleapis.com");
+  }
+
+  if (enableFirestore || enableStorage) {
+    requiredApis.push("firebaserules.googleapis.com");
+  }
+
+  if (workloadIdentity.enabled) {
+    requiredApis.push("sts.googleapis.com");
   }
 
   if (enableFunctions) {
     requiredApis.push("cloudfunctions.googleapis.com");
     requiredApis.push("cloudbuild.googleapis.com");
     requiredApis.push("run.googleapis.com");
+    requiredApis.push("artifactregistry.googleapis.com");
+    requiredApis.push("eventarc.googleapis.com");
+    requiredApis.push("pubsub.googleapis.com");
+    if (functions.secrets?.length) {
+      requiredApis.push("secretmanager.googleapis.com");
+    }
   }
 
+  // Several features need the same API; each one is enabled once
   const enabledApis: gcp.projects.Service[] = [];
-  for (const api of requiredApis) {
+  let secretManagerApi: gcp.projects.Service | undefined;
+  for (const api of new Set(requiredApis)) {
     const service = new gcp.projects.Service(
       `${projectName}-api-${api.replace(/\./g, "-")}`,
       {
@@ -114,19 +223,30 @@ export function createFirebaseEnvironment(
       }
     );
     enabledApis.push(service);
+    if (api === "secretmanager.googleapis.com") {
+      secretManagerApi = service;
+    }
   }
 
   // ============================================================================
-  // Initialize Firebase (using gcloud command)
+  // Initialize Firebase
   // ============================================================================
 
-  const firebaseInit = new command.local.Command(
-    `${projectName}-firebase-init`,
+  // Firebase Management API calls are billed against the target project, so they go
+  // through a provider with user project override (required with user credentials)
+  const firebaseProvider = new gcp.Provider(`${projectName}-firebase-provider`, {
+    project: project.projectId,
+    billingProject: project.projectId,
+    userProjectOverride: true,
+  });
+
+  const firebaseProject = new gcp.firebase.Project(
+    `${projectName}-firebase`,
     {
-      create: pulumi.interpolate`gcloud firebase projects:addfirebase ${project.projectId}`,
-      update: pulumi.interpolate`echo "Firebase already initialized for ${project.projectId}"`,
+      project: project.projectId,
     },
     {
+      provider: firebaseProvider,
       dependsOn: enabledApis,
     }
   );
@@ -135,24 +255,27 @@ export function createFirebaseEnvironment(
   // Create Firebase Web App (to get config)
   // ============================================================================
 
-  const webApp = new command.local.Command(
+  const webApp = new gcp.firebase.WebApp(
     `${projectName}-web-app`,
     {
-      create: pulumi.interpolate`firebase apps:create web "${projectName}-web" --project=${project.projectId} -j`,
+      project: project.projectId,
+      displayName: `${projectName}-web`,
+      deletionPolicy: "DELETE",
     },
     {
-      dependsOn: [firebaseInit],
+      provider: firebaseProvider,
+      dependsOn: [firebaseProject],
     }
   );
 
   // Get web API key from Firebase config
-  const webConfig = new command.local.Command(
-    `${projectName}-web-config`,
+  const webConfig = gcp.firebase.getWebAppConfigOutput(
     {
-      create: pulumi.interpolate`firebase apps:sdkconfig web --project=${project.projectId} -j`,
+      project: project.projectId,
+      webAppId: webApp.appId,
     },
     {
-      dependsOn: [webApp],
+      provider: firebaseProvider,
     }
   );
 
@@ -160,24 +283,45 @@ export function createFirebaseEnvironment(
   // Register Android App
   // ============================================================================
 
-  const androidApp = new command.local.Command(
+  // Needed by Google Sign-In, App Links and App Check; sorted and deduplicated so
+  // the same set never shows up as a change
+  const fingerprints = pulumi
+    .all([
+      ...androidSigningKeys.flatMap((key) => [key.sha1Fingerprint, key.sha256Fingerprint]),
+      ...androidCertificateFingerprints,
+    ])
+    .apply((all) => {
+      const unique = [...new Set(all.map(normalizeFingerprint))].sort();
+      return {
+        sha1: unique.filter((fingerprint) => fingerprint.length === 40),
+        sha256: unique.filter((fingerprint) => fingerprint.length === 64),
+      };
+    });
+
+  const androidApp = new gcp.firebase.AndroidApp(
     `${projectName}-android-app`,
     {
-      create: pulumi.interpolate`firebase apps:create android ${androidPackageName} --project=${project.projectId}`,
+      project: project.projectId,
+      displayName: `${projectName}-android`,
+      packageName: androidPackageName,
+      sha1Hashes: fingerprints.sha1,
+      sha256Hashes: fingerprints.sha256,
+      deletionPolicy: "DELETE",
     },
     {
-      dependsOn: [firebaseInit],
+      provider: firebaseProvider,
+      dependsOn: [firebaseProject],
     }
   );
 
-  // Download google-services.json
-  const googleServicesJson = new command.local.Command(
-    `${projectName}-google-services-json`,
+  // google-services.json (base64 encoded)
+  const androidConfig = gcp.firebase.getAndroidAppConfigOutput(
     {
-      create: pulumi.interpolate`firebase apps:sdkconfig android ${androidPackageName} --project=${project.projectId} -o /tmp/google-services-${projectName}.json && cat /tmp/google-services-${projectName}.json | base64`,
+      project: project.projectId,
+      appId: androidApp.appId,
     },
     {
-      dependsOn: [androidApp],
+      provider: firebaseProvider,
     }
   );
 
@@ -185,24 +329,28 @@ export function createFirebaseEnvironment(
   // Register iOS App
   // ============================================================================
 
-  const iosApp = new command.local.Command(
+  const iosApp = new gcp.firebase.AppleApp(
     `${projectName}-ios-app`,
     {
-      create: pulumi.interpolate`firebase apps:create ios ${iosBundleId} --project=${project.projectId}`,
+      project: project.projectId,
+      displayName: `${projectName}-ios`,
+      bundleId: iosBundleId,
+      deletionPolicy: "DELETE",
     },
     {
-      dependsOn: [firebaseInit],
+      provider: firebaseProvider,
+      dependsOn: [firebaseProject],
     }
   );
 
-  // Download GoogleService-Info.plist
-  const googleServicesPlist = new command.local.Command(
-    `${projectName}-google-services-plist`,
+  // GoogleService-Info.plist (base64 encoded)
+  const iosConfig = gcp.firebase.getAppleAppConfigOutput(
     {
-      create: pulumi.interpolate`firebase apps:sdkconfig ios ${iosBundleId} --project=${project.projectId} -o /tmp/GoogleService-Info-${projectName}.plist && cat /tmp/GoogleService-Info-${projectName}.plist | base64`,
+      project: project.projectId,
+      appId: iosApp.appId,
     },
     {
-      dependsOn: [iosApp],
+      provider: firebaseProvider,
     }
   );
 
@@ -210,163 +358,213 @@ export function createFirebaseEnvironment(
   // Setup Firestore
   // ============================================================================
 
-  let firestoreDatabase: command.local.Command | undefined;
+  let firestoreDatabase: gcp.firestore.Database | undefined;
+  let firestoreBackupOutputs: FirestoreBackupsOutputs | undefined;
   if (enableFirestore) {
-    firestoreDatabase = new command.local.Command(
+    firestoreDatabase = new gcp.firestore.Database(
       `${projectName}-firestore`,
       {
-        create: pulumi.interpolate`gcloud firestore databases create --project=${project.projectId} --location=${firestoreRegion} --type=firestore-native || echo "Firestore already exists"`,
+        project: project.projectId,
+        name: "(default)",
+        locationId: firestoreRegion,
+        type: "FIRESTORE_NATIVE",
+        // Keep production data when the database is removed from the program
+        deletionPolicy: environment === "prod" ? "ABANDON" : "DELETE",
+        pointInTimeRecoveryEnablement: firestoreBackups.pointInTimeRecovery
+          ? "POINT_IN_TIME_RECOVERY_ENABLED"
+          : "POINT_IN_TIME_RECOVERY_DISABLED",
+        deleteProtectionState: firestoreBackups.deleteProtection
+          ? "DELETE_PROTECTION_ENABLED"
+          : "DELETE_PROTECTION_DISABLED",
       },
       {
-        dependsOn: enabledApis,
+        dependsOn: [...enabledApis, firebaseProject],
       }
     );
+
+    // Every environment gets exactly the indexes in the file; indexes removed from it
+    // are deleted
+    setupFirestoreIndexes({
+      projectName,
+      project: project.projectId,
+      database: firestoreDatabase,
+      indexesPath: firestoreIndexesPath,
+      ttlFields: firestoreTtlFields,
+    });
+
+    firestoreBackupOutputs = setupFirestoreBackups({
+      projectName,
+      project: project.projectId,
+      database: firestoreDatabase,
+      firestoreRegion,
+      schedulerRegion: functionsRegion,
+      backups: firestoreBackups,
+      dependsOn: enabledApis,
+    });
   }
 
   // ============================================================================
   // Setup Storage
   // ============================================================================
 
-  let storageBucket: gcp.storage.Bucket | undefined;
+  let storageBuckets: StorageBucketsOutputs | undefined;
   if (enableStorage) {
-    storageBucket = new gcp.storage.Bucket(
-      `${projectName}-storage`,
-      {
-        project: project.projectId,
-        name: `${projectName}.appspot.com`,
-        location: "EU",
-        uniformBucketLevelAccess: true,
-        cors: [
-          {
-            origins: ["*"],
-            methods: ["GET", "HEAD", "PUT", "POST", "DELETE"],
-            responseHeaders: ["*"],
-            maxAgeSeconds: 3600,
-          },
-        ],
-      },
-      {
-        dependsOn: enabledApis,
-      }
-    );
+    storageBuckets = setupStorageBuckets({
+      projectName,
+      project: project.projectId,
+      firestoreRegion,
+      storage,
+      existingDefaultBucketLocation,
+      dependsOn: enabledApis,
+    });
   }
 
   // ============================================================================
-  // Create Service Account for CI/CD
+  // Setup Cloud Functions foundations (if enabled)
   // ============================================================================
 
-  const serviceAccount = new gcp.serviceaccount.Account(
-    `${projectName}-sa`,
-    {
+  // Everything a functions deploy needs besides the code: image repository, runtime
+  // account, secrets and the event delivery plumbing
+  let functionsOutputs: FunctionsOutputs | undefined;
+  if (enableFunctions) {
+    functionsOutputs = setupFunctions({
+      projectName,
       project: project.projectId,
-      accountId: `${projectName}-cicd`,
-      displayName: `CI/CD Service Account for ${projectName}`,
-      description: "Service account for GitHub Actions CI/CD",
-    },
-    {
+      projectNumber: project.number,
+      region: functionsRegion,
+      functions,
+      enableFirestore,
+      enableStorage,
+      storageBuckets: storageBuckets ? [storageBuckets.defaultBucket] : [],
+      secretValues: functionsSecretValues,
+      environment,
       dependsOn: enabledApis,
-    }
-  );
+    });
+  }
 
-  // Grant necessary roles to service account
-  const roles = [
-    "roles/firebase.admin",
-    "roles/firebaseauth.admin",
-    "roles/datastore.user",
-    "roles/cloudfunctions.admin",
-    "roles/storage.admin",
-    "roles/iam.serviceAccountUser",
-  ];
+  // ============================================================================
+  // Create Service Accounts and IAM bindings
+  // ============================================================================
 
-  const iamBindings: gcp.projects.IAMMember[] = [];
-  for (const role of roles) {
-    const binding = new gcp.projects.IAMMember(
-      `${projectName}-sa-${role.replace(/\//g, "-").replace(/\./g, "-")}`,
-      {
-        project: project.projectId,
-        role: role,
-        member: pulumi.interpolate`serviceAccount:${serviceAccount.email}`,
-      }
-    );
-    iamBindings.push(binding);
+  // The primary account's key is published to GitHub; further accounts get their own
+  // profiles (see iam.ts)
+  const iamOutputs = setupIam({
+    projectName,
+    project: project.projectId,
+    iam,
+    dependsOn: enabledApis,
+  });
+  const serviceAccount = iamOutputs.primaryAccount;
+
+  // GitHub Actions authenticates either keyless through Workload Identity Federation or
+  // with a long-lived service account key
+  let serviceAccountKey: gcp.serviceaccount.Key | undefined;
+  let workloadIdentityProvider: pulumi.Output<string> | undefined;
+  if (workloadIdentity.enabled) {
+    workloadIdentityProvider = setupWorkloadIdentity({
+      projectName,
+      project: project.projectId,
+      repository: githubRepo,
+      serviceAccount,
+      workloadIdentity,
+      dependsOn: enabledApis,
+    }).providerName;
+  } else {
+    serviceAccountKey = setupServiceAccountKeys({
+      projectName,
+      serviceAccount,
+      state: keyRotationState,
+      dependsOn: iamOutputs.primaryBindings,
+    });
   }
 
-  // Create service account key
-  const serviceAccountKey = new gcp.serviceaccount.Key(
-    `${projectName}-sa-key`,
-    {
-      serviceAccountId: serviceAccount.name,
-    },
-    {
-      dependsOn: iamBindings,
-    }
-  );
+  // ============================================================================
+  // Configure Authentication (if enabled)
+  // ============================================================================
+
+  // Only with an auth section: the Identity Platform config upgrades the project, which
+  // needs billing, and would otherwise reset what was set up in the console
+  const authOutputs = enableAuth && Object.keys(auth).length > 0
+    ? setupAuth({
+        projectName,
+        project: project.projectId,
+        functionsRegion,
+        iosBundleId,
+        auth,
+        secrets: authSecrets,
+        provider: firebaseProvider,
+        dependsOn: [...enabledApis, firebaseProject],
+      })
+    : undefined;
 
   // ============================================================================
   // Deploy Security Rules (if applicable)
   // ============================================================================
 
-  if (enableFirestore || enableStorage) {
-    // Firestore rules
-    if (enableFirestore && firestoreDatabase) {
-      const firestoreRules = new command.local.Command(
-        `${projectName}-firestore-rules`,
-        {
-          create: pulumi.interpolate`echo 'rules_version = "2";
-service cloud.firestore {
-  match /databases/{database}/documents {
-    // Default: Deny all access
-    match /{document=**} {
-      allow read, write: if false;
-    }
-
-    // Users can read/write their own data
-    match /users/{userId} {
-      allow read, write: if request.auth != null && request.auth.uid == userId;
-    }
+  // Rules are read from the repository on every run; a content change creates a new
+  // ruleset and points the release at it
+  if (enableFirestore && firestoreDatabase) {
+    const firestoreRuleset = new gcp.firebaserules.Ruleset(
+      `${projectName}-firestore-ruleset`,
+      {
+        project: project.projectId,
+        source: rulesetSource(firestoreRulesPath, "firestore.rules"),
+      },
+      {
+        dependsOn: [firestoreDatabase],
+      }
+    );
 
-    // Public read for certain collections (customize as needed)
-    match /public/{document=**} {
-      allow read: if true;
-      allow write: if request.auth != null;
-    }
+    new gcp.firebaserules.Release(
+      `${projectName}-firestore-rules`,
+      {
+        project: project.projectId,
+        name: "cloud.firestore",
+        rulesetName: pulumi.interpolate`projects/${project.projectId}/rulesets/${firestoreRuleset.name}`,
+      },
+      {
+        deleteBeforeReplace: true,
+      }
+    );
   }
-}' > /tmp/firestore-${projectName}.rules && firebase deploy --only firestore:rules --project=${project.projectId}`,
+
+  if (enableStorage && storageBuckets) {
+    const storageRuleset = new gcp.firebaserules.Ruleset(
+      `${projectName}-storage-ruleset`,
+      {
+        project: project.projectId,
+        source: rulesetSource(storageRulesPath, "storage.rules"),
+      },
+      {
+        dependsOn: [firebaseProject],
+      }
+    );
+
+    // The same rules apply to every Firebase-linked bucket
+    for (const { resourceSuffix, bucket } of storageBuckets.firebaseBuckets) {
+      // Link the bucket to Firebase so Storage rules apply to it
+      const firebaseStorageBucket = new gcp.firebase.StorageBucket(
+        `${projectName}-firebase-storage${resourceSuffix}`,
+        {
+          project: project.projectId,
+          bucketId: bucket.name,
         },
         {
-          dependsOn: [firestoreDatabase],
+          provider: firebaseProvider,
+          dependsOn: [firebaseProject],
         }
       );
-    }
 
-    // Storage rules
-    if (enableStorage && storageBucket) {
-      const storageRules = new command.local.Command(
-        `${projectName}-storage-rules`,
+      new gcp.firebaserules.Release(
+        `${projectName}-storage-rules${resourceSuffix}`,
         {
-          create: pulumi.interpolate`echo 'rules_version = "2";
-service firebase.storage {
-  match /b/{bucket}/o {
-    // Default: Deny all access
-    match /{allPaths=**} {
-      allow read, write: if false;
-    }
-
-    // Users can read/write their own files
-    match /users/{userId}/{allPaths=**} {
-      allow read, write: if request.auth != null && request.auth.uid == userId;
-    }
-
-    // Public read access
-    match /public/{allPaths=**} {
-      allow read: if true;
-      allow write: if request.auth != null;
-    }
-  }
-}' > /tmp/storage-${projectName}.rules && firebase deploy --only storage --project=${project.projectId}`,
+          project: project.projectId,
+          name: pulumi.interpolate`firebase.storage/${bucket.name}`,
+          rulesetName: pulumi.interpolate`projects/${project.projectId}/rulesets/${storageRuleset.name}`,
         },
         {
-          dependsOn: [storageBucket],
+          dependsOn: [firebaseStorageBucket],
+          deleteBeforeReplace: true,
         }
       );
     }
@@ -379,17 +577,18 @@ service firebase.storage {
   return {
     projectId: project.projectId,
     projectNumber: project.number,
-    webApiKey: webConfig.stdout.apply((config): string => {
-      try {
-        const parsed = JSON.parse(config);
-        return parsed.sdkConfig?.apiKey || "";
-      } catch {
-        return "";
-      }
-    }),
+    webApiKey: webConfig.apiKey,
     serviceAccountEmail: serviceAccount.email,
-    serviceAccountKey: serviceAccountKey.privateKey,
-    googleServicesJson: googleServicesJson.stdout,
-    googleServicesPlist: googleServicesPlist.stdout,
+    serviceAccountKey: serviceAccountKey?.privateKey,
+    workloadIdentityProvider,
+    googleServicesJson: androidConfig.configFileContents,
+    googleServicesPlist: iosConfig.configFileContents,
+    firestoreBackups: firestoreBackupOutputs,
+    storageBuckets: storageBuckets?.bucketNames ?? [],
+    serviceAccountEmails: iamOutputs.serviceAccountEmails,
+    androidCertificateFingerprints: fingerprints,
+    auth: authOutputs,
+    functions: functionsOutputs,
+    secretManagerApi,
   };
 }
@@ -0,0 +1,454 @@
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { storageLocationForFirestoreRegion } from "./storage";
+import { projectPath } from "./paths";
+
+// ============================================================================
+// firestore.indexes.json (the format written by `firebase firestore:indexes`)
+// ============================================================================
+
+export interface FirestoreIndexField {
+  fieldPath: string;
+  order?: "ASCENDING" | "DESCENDING";
+  arrayConfig?: "CONTAINS";
+  vectorConfig?: { dimension: number; flat: Record<string, never> };
+}
+
+export interface FirestoreIndex {
+  collectionGroup: string;
+  queryScope?: "COLLECTION" | "COLLECTION_GROUP";
+  fields: FirestoreIndexField[];
+}
+
+export interface FirestoreFieldOverrideIndex {
+  order?: "ASCENDING" | "DESCENDING";
+  arrayConfig?: "CONTAINS";
+  queryScope?: "COLLECTION" | "COLLECTION_GROUP";
+}
+
+export interface FirestoreFieldOverride {
+  collectionGroup: string;
+  fieldPath: string;
+  ttl?: boolean;
+  indexes?: FirestoreFieldOverrideIndex[];
+}
+
+export interface FirestoreIndexFile {
+  indexes: FirestoreIndex[];
+  fieldOverrides: FirestoreFieldOverride[];
+}
+
+/** A TTL policy: documents in the collection group expire at the timestamp in `field`. */
+export interface FirestoreTtlField {
+  collectionGroup: string;
+  field: string;
+}
+
+const ORDERS = ["ASCENDING", "DESCENDING"];
+const QUERY_SCOPES = ["COLLECTION", "COLLECTION_GROUP"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function checkIndexSpec(where: string, spec: Record<string, unknown>, problems: string[]): void {
+  const modes = ["order", "arrayConfig", "vectorConfig"].filter((key) => spec[key] !== undefined);
+  if (modes.length !== 1) {
+    problems.push(`${where}: needs exactly one of order, arrayConfig or vectorConfig`);
+  } else if (spec.order !== undefined && !ORDERS.includes(spec.order as string)) {
+    problems.push(`${where}.order: must be ${ORDERS.join(" or ")}`);
+  } else if (spec.arrayConfig !== undefined && spec.arrayConfig !== "CONTAINS") {
+    problems.push(`${where}.arrayConfig: must be CONTAINS`);
+  }
+  if (spec.queryScope !== undefined && !QUERY_SCOPES.includes(spec.queryScope as string)) {
+    problems.push(`${where}.queryScope: must be ${QUERY_SCOPES.join(" or ")}`);
+  }
+}
+
+/**
+ * Checks a parsed index file and returns the problems found (empty when valid).
+ */
+export function validateFirestoreIndexFile(data: unknown): string[] {
+  const problems: string[] = [];
+  if (!isObject(data)) {
+    return ["must be a JSON object with `indexes` and `fieldOverrides`"];
+  }
+
+  const indexes = data.indexes ?? [];
+  if (!Array.isArray(indexes)) {
+    problems.push("indexes: must be an array");
+  } else {
+    indexes.forEach((index: unknown, i: number) => {
+      const where = `indexes[${i}]`;
+      if (!isObject(index)) {
+        problems.push(`${where}: must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(index.collectionGroup)) {
+        problems.push(`${where}.collectionGroup: is required`);
+      }
+      if (index.queryScope !== undefined && !QUERY_SCOPES.includes(index.queryScope as string)) {
+        problems.push(`${where}.queryScope: must be ${QUERY_SCOPES.join(" or ")}`);
+      }
+      if (!Array.isArray(index.fields) || index.fields.length === 0) {
+        problems.push(`${where}.fields: must be a non-empty array`);
+        return;
+      }
+      const isVectorIndex = index.fields.some((field: unknown) => isObject(field) && field.vectorConfig);
+      if (index.fields.length < 2 && !isVectorIndex) {
+        // Single-field indexes are automatic or configured through fieldOverrides
+        problems.push(`${where}.fields: a composite index needs at least two fields`);
+        return;
+      }
+      index.fields.forEach((field: unknown, j: number) => {
+        if (!isObject(field) || !isNonEmptyString(field.fieldPath)) {
+          problems.push(`${where}.fields[${j}].fieldPath: is required`);
+          return;
+        }
+        checkIndexSpec(`${where}.fields[${j}]`, field, problems);
+      });
+    });
+  }
+
+  const fieldOverrides = data.fieldOverrides ?? [];
+  if (!Array.isArray(fieldOverrides)) {
+    problems.push("fieldOverrides: must be an array");
+  } else {
+    const seen = new Set<string>();
+    fieldOverrides.forEach((override: unknown, i: number) => {
+      const where = `fieldOverrides[${i}]`;
+      if (!isObject(override)) {
+        problems.push(`${where}: must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(override.collectionGroup) || !isNonEmptyString(override.fieldPath)) {
+        problems.push(`${where}: collectionGroup and fieldPath are required`);
+        return;
+      }
+      const key = `${override.collectionGroup}.${override.fieldPath}`;
+      if (seen.has(key)) {
+        problems.push(`${where}: duplicate override for ${key}`);
+      }
+      seen.add(key);
+      if (override.ttl !== undefined && typeof override.ttl !== "boolean") {
+        problems.push(`${where}.ttl: must be true or false`);
+      }
+      if (override.indexes !== undefined) {
+        if (!Array.isArray(override.indexes)) {
+          problems.push(`${where}.indexes: must be an array`);
+        } else {
+          override.indexes.forEach((spec: unknown, j: number) => {
+            if (!isObject(spec)) {
+              problems.push(`${where}.indexes[${j}]: must be an object`);
+            } else {
+              checkIndexSpec(`${where}.indexes[${j}]`, spec, problems);
+            }
+          });
+        }
+      }
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Reads and validates an index file (path relative to the Pulumi project directory).
+ */
+export function readFirestoreIndexFile(indexesPath: string): FirestoreIndexFile {
+  const data = JSON.parse(fs.readFileSync(projectPath(indexesPath), "utf-8"));
+  const problems = validateFirestoreIndexFile(data);
+  if (problems.length > 0) {
+    throw new Error(`Invalid Firestore index file ${indexesPath}:\n  - ${problems.join("\n  - ")}`);
+  }
+  return {
+    indexes: data.indexes ?? [],
+    fieldOverrides: data.fieldOverrides ?? [],
+  };
+}
+
+// ============================================================================
+// Managed indexes and field configuration
+// ============================================================================
+
+export interface FirestoreIndexesConfig {
+  projectName: string;
+  project: pulumi.Input<string>;
+  database: gcp.firestore.Database;
+  indexesPath?: string;
+  ttlFields: FirestoreTtlField[];
+}
+
+export interface FirestoreIndexesOutputs {
+  indexes: gcp.firestore.Index[];
+  fields: gcp.firestore.Field[];
+}
+
+function resourceSuffix(value: string): string {
+  return value.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase();
+}
+
+// Resource names are lowercased, so a short hash of the exact value keeps e.g. `userId`
+// and `userid` apart
+function exactHash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 8);
+}
+
+/**
+ * Composite indexes can't be updated in place, so each one is named after a hash of its
+ * definition: editing an index in the file replaces it, removing it deletes it.
+ */
+function indexResourceName(projectName: string, index: FirestoreIndex): string {
+  const fields = index.fields.map((field) => [field.fieldPath, field.order, field.arrayConfig, field.vectorConfig]);
+  const definition = JSON.stringify([index.collectionGroup, index.queryScope ?? "COLLECTION", fields]);
+  return `${projectName}-index-${resourceSuffix(index.collectionGroup)}-${exactHash(definition)}`;
+}
+
+export function setupFirestoreIndexes(config: FirestoreIndexesConfig): FirestoreIndexesOutputs {
+  const { projectName, project, database, indexesPath, ttlFields } = config;
+  const indexFile: FirestoreIndexFile = indexesPath
+    ? readFirestoreIndexFile(indexesPath)
+    : { indexes: [], fieldOverrides: [] };
+
+  const indexes = indexFile.indexes.map(
+    (index) =>
+      new gcp.firestore.Index(
+        indexResourceName(projectName, index),
+        {
+          project,
+          database: database.name,
+          collection: index.collectionGroup,
+          queryScope: index.queryScope ?? "COLLECTION",
+          fields: index.fields.map((field) => ({
+            fieldPath: field.fieldPath,
+            order: field.order,
+            arrayConfig: field.arrayConfig,
+            vectorConfig: field.vectorConfig,
+          })),
+        },
+        {
+          dependsOn: [database],
+        }
+      )
+  );
+
+  // Field overrides from the file, with the TTL policies from the config merged in
+  const overrides = new Map<string, FirestoreFieldOverride>();
+  for (const override of indexFile.fieldOverrides) {
+    overrides.set(`${override.collectionGroup}/${override.fieldPath}`, { ...override });
+  }
+  for (const ttl of ttlFields) {
+    const key = `${ttl.collectionGroup}/${ttl.field}`;
+    const existing = overrides.get(key);
+    overrides.set(key, existing
+      ? { ...existing, ttl: true }
+      : { collectionGroup: ttl.collectionGroup, fieldPath: ttl.field, ttl: true });
+  }
+
+  // Names without the hash, as fields were named before; kept as aliases where they are
+  // unambiguous so existing fields aren't recreated
+  const legacyName = (override: FirestoreFieldOverride) =>
+    `${projectName}-field-${resourceSuffix(override.collectionGroup)}-${resourceSuffix(override.fieldPath)}`;
+  const legacyNameCounts = new Map<string, number>();
+  for (const override of overrides.values()) {
+    legacyNameCounts.set(legacyName(override), (legacyNameCounts.get(legacyName(override)) ?? 0) + 1);
+  }
+
+  // Deleting a field resource restores the default single-field indexing and removes
+  // the TTL policy
+  const fields = [...overrides.values()].map(
+    (override) =>
+      new gcp.firestore.Field(
+        `${legacyName(override)}-${exactHash(`${override.collectionGroup}/${override.fieldPath}`)}`,
+        {
+          project,
+          database: database.name,
+          collection: override.collectionGroup,
+          field: override.fieldPath,
+          indexConfig: override.indexes
+            ? {
+                indexes: override.indexes.map((spec) => ({
+                  order: spec.order,
+                  arrayConfig: spec.arrayConfig,
+                  queryScope: spec.queryScope ?? "COLLECTION",
+                })),
+              }
+            : undefined,
+          ttlConfig: override.ttl ? {} : undefined,
+        },
+        {
+          dependsOn: [database],
+          aliases: legacyNameCounts.get(legacyName(override)) === 1 ? [{ name: legacyName(override) }] : [],
+        }
+      )
+  );
+
+  return { indexes, fields };
+}
+
+// ============================================================================
+// Backups, point-in-time recovery and scheduled exports
+// ============================================================================
+
+export const BACKUP_WEEKDAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY", "SUNDAY"];
+
+// Firestore keeps scheduled backups for at most 14 weeks
+export const MAX_BACKUP_RETENTION_DAYS = 98;
+
+export interface FirestoreBackupConfig {
+  pointInTimeRecovery?: boolean;
+  /** Database delete protection (defaults to on for prod) */
+  deleteProtection?: boolean;
+  dailyRetentionDays?: number;
+  /** Day of the week for the weekly backup, e.g. "SUNDAY" */
+  weeklyBackupDay?: string;
+  weeklyRetentionDays?: number;
+  /** Cron schedule (UTC) for exports to a dedicated bucket */
+  exportSchedule?: string;
+  /** Exports older than this are deleted from the bucket */
+  exportRetentionDays?: number;
+}
+
+export interface FirestoreBackupsConfig {
+  projectName: string;
+  project: pulumi.Input<string>;
+  database: gcp.firestore.Database;
+  firestoreRegion: string;
+  schedulerRegion: string;
+  backups: FirestoreBackupConfig;
+  dependsOn: pulumi.Resource[];
+}
+
+export interface FirestoreBackupsOutputs {
+  pointInTimeRecovery: boolean;
+  deleteProtection: boolean;
+  dailyRetentionDays: number | null;
+  weeklyBackupDay: string | null;
+  weeklyRetentionDays: number | null;
+  exportSchedule: string | null;
+  exportBucket: pulumi.Output<string> | null;
+}
+
+function retention(days: number): string {
+  return `${days * 24 * 60 * 60}s`;
+}
+
+export function setupFirestoreBackups(config: FirestoreBackupsConfig): FirestoreBackupsOutputs {
+  const { projectName, project, database, firestoreRegion, schedulerRegion, backups, dependsOn } = config;
+
+  if (backups.dailyRetentionDays) {
+    new gcp.firestore.BackupSchedule(
+      `${projectName}-firestore-backup-daily`,
+      {
+        project,
+        database: database.name,
+        retention: retention(backups.dailyRetentionDays),
+        dailyRecurrence: {},
+      },
+      {
+        dependsOn: [database],
+      }
+    );
+  }
+
+  if (backups.weeklyBackupDay) {
+    new gcp.firestore.BackupSchedule(
+      `${projectName}-firestore-backup-weekly`,
+      {
+        project,
+        database: database.name,
+        retention: retention(backups.weeklyRetentionDays ?? MAX_BACKUP_RETENTION_DAYS),
+        weeklyRecurrence: { day: backups.weeklyBackupDay },
+      },
+      {
+        dependsOn: [database],
+      }
+    );
+  }
+
+  let exportBucket: gcp.storage.Bucket | undefined;
+  if (backups.exportSchedule) {
+    exportBucket = new gcp.storage.Bucket(
+      `${projectName}-firestore-exports`,
+      {
+        project,
+        name: `${projectName}-firestore-exports`,
+        location: storageLocationForFirestoreRegion(firestoreRegion),
+        uniformBucketLevelAccess: true,
+        publicAccessPrevention: "enforced",
+        lifecycleRules: backups.exportRetentionDays
+          ? [{ action: { type: "Delete" }, condition: { age: backups.exportRetentionDays } }]
+          : [],
+      },
+      {
+        dependsOn,
+      }
+    );
+
+    // Cloud Scheduler calls the export API as this account; the Firestore service agent
+    // writes the export and can already access buckets in its own project
+    const exportServiceAccount = new gcp.serviceaccount.Account(
+      `${projectName}-firestore-export-sa`,
+      {
+        project,
+        accountId: "firestore-export",
+        displayName: `Scheduled Firestore exports for ${projectName}`,
+      },
+      {
+        dependsOn,
+      }
+    );
+
+    const exportRole = new gcp.projects.IAMMember(
+      `${projectName}-firestore-export-sa-roles-datastore-importExportAdmin`,
+      {
+        project,
+        role: "roles/datastore.importExportAdmin",
+        member: pulumi.interpolate`serviceAccount:${exportServiceAccount.email}`,
+      }
+    );
+
+    new gcp.cloudscheduler.Job(
+      `${projectName}-firestore-export`,
+      {
+        project,
+        region: schedulerRegion,
+        name: "firestore-export",
+        description: `Exports the ${projectName} Firestore database to gs://${projectName}-firestore-exports`,
+        schedule: backups.exportSchedule,
+        timeZone: "Etc/UTC",
+        httpTarget: {
+          httpMethod: "POST",
+          uri: pulumi.interpolate`https://firestore.googleapis.com/v1/projects/${project}/databases/${database.name}:exportDocuments`,
+          body: exportBucket.name.apply((bucket) =>
+            Buffer.from(JSON.stringify({ outputUriPrefix: `gs://${bucket}` })).toString("base64")
+          ),
+          headers: { "Content-Type": "application/json" },
+          oauthToken: {
+            serviceAccountEmail: exportServiceAccount.email,
+            scope: "https://www.googleapis.com/auth/cloud-platform",
+          },
+        },
+      },
+      {
+        dependsOn: [...dependsOn, exportRole, database],
+      }
+    );
+  }
+
+  return {
+    pointInTimeRecovery: backups.pointInTimeRecovery === true,
+    deleteProtection: backups.deleteProtection === true,
+    dailyRetentionDays: backups.dailyRetentionDays ?? null,
+    weeklyBackupDay: backups.weeklyBackupDay ?? null,
+    weeklyRetentionDays: backups.weeklyBackupDay ? backups.weeklyRetentionDays ?? MAX_BACKUP_RETENTION_DAYS : null,
+    exportSchedule: backups.exportSchedule ?? null,
+    exportBucket: exportBucket ? exportBucket.name : null,
+  };
+}
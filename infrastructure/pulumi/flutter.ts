@@ -0,0 +1,54 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { OutputMap } from '@pulumi/pulumi/automation';
+
+export interface FlutterConfigFile {
+  environment: string;
+  relativePath: string;
+  content: Buffer;
+}
+
+export type FlutterConfigFileStatus = 'up-to-date' | 'stale' | 'missing';
+
+/**
+ * Decodes the base64 `google_services_json_<env>` and `google_services_plist_<env>` stack
+ * outputs into the files expected by the Flutter flavors.
+ */
+export function flutterConfigFilesFromOutputs(outputs: OutputMap): FlutterConfigFile[] {
+  const files: FlutterConfigFile[] = [];
+
+  for (const [key, output] of Object.entries(outputs)) {
+    const jsonMatch = key.match(/^google_services_json_(.+)$/);
+    const plistMatch = key.match(/^google_services_plist_(.+)$/);
+    if (!jsonMatch && !plistMatch) {
+      continue;
+    }
+
+    const environment = (jsonMatch ?? plistMatch)![1];
+    const relativePath = jsonMatch
+      ? path.join('android', 'app', 'src', environment, 'google-services.json')
+      : path.join('ios', 'config', environment, 'GoogleService-Info.plist');
+
+    files.push({
+      environment,
+      relativePath,
+      content: Buffer.from(String(output.value ?? ''), 'base64'),
+    });
+  }
+
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+export function flutterConfigFileStatus(projectDir: string, file: FlutterConfigFile): FlutterConfigFileStatus {
+  const target = path.join(projectDir, file.relativePath);
+  if (!fs.existsSync(target)) {
+    return 'missing';
+  }
+  return fs.readFileSync(target).equals(file.content) ? 'up-to-date' : 'stale';
+}
+
+export function writeFlutterConfigFile(projectDir: string, file: FlutterConfigFile): void {
+  const target = path.join(projectDir, file.relativePath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, file.content);
+}
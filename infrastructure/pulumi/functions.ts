@@ -0,0 +1,271 @@
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { roleSlug } from "./iam";
+
+// ============================================================================
+// Functions options
+// ============================================================================
+
+// Kept apart from `gcf-artifacts`, which Cloud Functions creates and manages itself;
+// deploys push here when given `--docker-repository`
+export const DEFAULT_FUNCTIONS_REPOSITORY = "functions";
+export const DEFAULT_KEEP_VERSIONS = 10;
+export const DEFAULT_DELETE_AFTER_DAYS = 30;
+
+export const FUNCTIONS_RUNTIME_SERVICE_ACCOUNT = "functions-runtime";
+
+// What every function needs to log, report metrics and traces, and receive Eventarc events.
+// Invoking a function is granted per function by its deploy, not here for all of them.
+export const FUNCTIONS_RUNTIME_BASE_ROLES = [
+  "roles/logging.logWriter",
+  "roles/monitoring.metricWriter",
+  "roles/cloudtrace.agent",
+  "roles/eventarc.eventReceiver",
+];
+
+export interface FunctionsConfig {
+  /** Artifact Registry repository for function images, in the functions region */
+  repository?: string;
+  /** Most recent image versions always kept */
+  keepVersions?: number;
+  /** Other image versions are deleted once older than this */
+  deleteAfterDays?: number;
+  /** Data access roles of the runtime account; replaces the Firestore/Storage user defaults */
+  runtimeRoles?: string[];
+  /** Secret Manager secret IDs the functions read; values come from functionsSecretValues */
+  secrets?: string[];
+}
+
+/** One value for all environments, or one per environment name */
+export type FunctionsSecretValues = Record<string, string | Record<string, string>>;
+
+/**
+ * Data access roles of the runtime account: Firestore and Storage object access for the
+ * services that are enabled, unless `runtimeRoles` says otherwise.
+ */
+export function functionsRuntimeRoles(
+  functions: FunctionsConfig,
+  enableFirestore: boolean,
+  enableStorage: boolean
+): string[] {
+  return [
+    ...FUNCTIONS_RUNTIME_BASE_ROLES,
+    ...(functions.runtimeRoles ?? [
+      ...(enableFirestore ? ["roles/datastore.user"] : []),
+      ...(enableStorage ? ["roles/storage.objectUser"] : []),
+    ]),
+  ];
+}
+
+// ============================================================================
+// Functions foundations
+// ============================================================================
+
+export interface FunctionsSetupConfig {
+  projectName: string;
+  project: pulumi.Output<string>;
+  projectNumber: pulumi.Output<string>;
+  region: string;
+  functions: FunctionsConfig;
+  enableFirestore: boolean;
+  enableStorage: boolean;
+  /** The project's buckets, created before the storage agent is granted anything */
+  storageBuckets: pulumi.Resource[];
+  secretValues?: pulumi.Output<FunctionsSecretValues>;
+  environment: string;
+  dependsOn: pulumi.Resource[];
+}
+
+export interface FunctionsOutputs {
+  /** Repository name for `--docker-repository`, `projects/<project>/locations/<region>/repositories/<repository>` */
+  repository: pulumi.Output<string>;
+  runtimeServiceAccountEmail: pulumi.Output<string>;
+  secretIds: string[];
+}
+
+export function setupFunctions(config: FunctionsSetupConfig): FunctionsOutputs {
+  const {
+    projectName,
+    project,
+    projectNumber,
+    region,
+    functions,
+    enableFirestore,
+    enableStorage,
+    storageBuckets,
+    secretValues,
+    environment,
+    dependsOn,
+  } = config;
+  const repositoryId = functions.repository ?? DEFAULT_FUNCTIONS_REPOSITORY;
+
+  // ============================================================================
+  // Artifact Registry repository
+  // ============================================================================
+
+  // Every deploy pushes a new image per function; without cleanup they pile up and
+  // are billed as storage
+  const repository = new gcp.artifactregistry.Repository(
+    `${projectName}-functions-repository`,
+    {
+      project,
+      location: region,
+      repositoryId,
+      format: "DOCKER",
+      description: "Cloud Functions images",
+      cleanupPolicyDryRun: false,
+      cleanupPolicies: [
+        {
+          id: "keep-recent",
+          action: "KEEP",
+          mostRecentVersions: { keepCount: functions.keepVersions ?? DEFAULT_KEEP_VERSIONS },
+        },
+        {
+          id: "delete-old",
+          action: "DELETE",
+          condition: {
+            tagState: "ANY",
+            olderThan: `${(functions.deleteAfterDays ?? DEFAULT_DELETE_AFTER_DAYS) * 86400}s`,
+          },
+        },
+      ],
+    },
+    {
+      dependsOn,
+    }
+  );
+
+  // ============================================================================
+  // Runtime service account
+  // ============================================================================
+
+  // Functions run as this account instead of the default compute account, which has
+  // Editor on the whole project
+  const runtimeAccount = new gcp.serviceaccount.Account(
+    `${projectName}-functions-runtime`,
+    {
+      project,
+      accountId: FUNCTIONS_RUNTIME_SERVICE_ACCOUNT,
+      displayName: `Cloud Functions runtime for ${projectName}`,
+    },
+    {
+      dependsOn,
+    }
+  );
+  const runtimeMember = pulumi.interpolate`serviceAccount:${runtimeAccount.email}`;
+
+  for (const role of functionsRuntimeRoles(functions, enableFirestore, enableStorage)) {
+    new gcp.projects.IAMMember(`${projectName}-functions-runtime-${roleSlug(role)}`, {
+      project,
+      role,
+      member: runtimeMember,
+    });
+  }
+
+  // ============================================================================
+  // Secrets
+  // ============================================================================
+
+  // The runtime account can read only the declared secrets, not every secret in the project
+  const secretIds = functions.secrets ?? [];
+  for (const secretId of secretIds) {
+    const secret = new gcp.secretmanager.Secret(
+      `${projectName}-functions-secret-${secretId}`,
+      {
+        project,
+        secretId,
+        replication: { auto: {} },
+        labels: { "managed-by": "pulumi" },
+      },
+      {
+        dependsOn,
+      }
+    );
+
+    if (secretValues) {
+      new gcp.secretmanager.SecretVersion(`${projectName}-functions-secret-${secretId}-version`, {
+        secret: secret.id,
+        secretData: pulumi.secret(
+          secretValues.apply((values) => {
+            const value = values[secretId];
+            return typeof value === "string" ? value : value[environment];
+          })
+        ),
+      });
+    }
+
+    new gcp.secretmanager.SecretIamMember(`${projectName}-functions-secret-${secretId}-accessor`, {
+      project,
+      secretId: secret.secretId,
+      role: "roles/secretmanager.secretAccessor",
+      member: runtimeMember,
+    });
+  }
+
+  // ============================================================================
+  // Eventarc and Pub/Sub prerequisites
+  // ============================================================================
+
+  // Event-triggered functions are delivered through Eventarc and Pub/Sub; their service
+  // agents only exist once something asks for them
+  const pubsubAgent = new gcp.projects.ServiceIdentity(
+    `${projectName}-pubsub-agent`,
+    {
+      project,
+      service: "pubsub.googleapis.com",
+    },
+    {
+      dependsOn,
+    }
+  );
+  const eventarcAgent = new gcp.projects.ServiceIdentity(
+    `${projectName}-eventarc-agent`,
+    {
+      project,
+      service: "eventarc.googleapis.com",
+    },
+    {
+      dependsOn,
+    }
+  );
+
+  // Pub/Sub mints the tokens push subscriptions use to invoke functions as the runtime
+  // account; granted on that account only, not on every account in the project
+  new gcp.serviceaccount.IAMMember(`${projectName}-pubsub-agent-token-creator`, {
+    serviceAccountId: runtimeAccount.name,
+    role: "roles/iam.serviceAccountTokenCreator",
+    member: pulumi.interpolate`serviceAccount:${pubsubAgent.email}`,
+  });
+
+  new gcp.projects.IAMMember(`${projectName}-eventarc-agent`, {
+    project,
+    role: "roles/eventarc.serviceAgent",
+    member: pulumi.interpolate`serviceAccount:${eventarcAgent.email}`,
+  });
+
+  // Storage triggers: Cloud Storage publishes object events to Pub/Sub as its own agent,
+  // which exists once the project has a bucket
+  if (enableStorage) {
+    new gcp.projects.IAMMember(
+      `${projectName}-storage-agent-pubsub-publisher`,
+      {
+        project,
+        role: "roles/pubsub.publisher",
+        member: pulumi.interpolate`serviceAccount:service-${projectNumber}@gs-project-accounts.iam.gserviceaccount.com`,
+      },
+      {
+        dependsOn: storageBuckets,
+      }
+    );
+  }
+
+  // ============================================================================
+  // Return outputs
+  // ============================================================================
+
+  return {
+    repository: pulumi.interpolate`projects/${project}/locations/${region}/repositories/${repository.repositoryId}`,
+    runtimeServiceAccountEmail: runtimeAccount.email,
+    secretIds,
+  };
+}
@@ -1,124 +1,372 @@
 import * as github from "@pulumi/github";
 import * as pulumi from "@pulumi/pulumi";
+import type { AndroidSigningKeyOutputs, AndroidSigningKeys } from "./android";
+import type { IosSigningOutputs } from "./ios";
+import type { FunctionsOutputs } from "./functions";
+
+// ============================================================================
+// Deployment environments
+// ============================================================================
+
+// GitHub limits
+export const MAX_ENVIRONMENT_REVIEWERS = 6;
+export const MAX_WAIT_TIMER_MINUTES = 43200;
+
+export interface GitHubEnvironmentConfig {
+  /** Create a GitHub deployment environment and keep this environment's secrets in it */
+  enabled?: boolean;
+  /** Deployment environment name; defaults to the Firebase environment name */
+  name?: string;
+  /** GitHub usernames that can approve deployments */
+  reviewers?: string[];
+  /** Team slugs (in the repository owner's organization) that can approve deployments */
+  reviewerTeams?: string[];
+  /** Stop the person who triggered a deployment from approving it */
+  preventSelfReview?: boolean;
+  waitTimerMinutes?: number;
+  /** Branch name patterns allowed to deploy, e.g. ["main", "release/*"] */
+  branches?: string[];
+  /** Only branches with branch protection rules may deploy */
+  protectedBranches?: boolean;
+  /** Let repository admins bypass the protection rules (GitHub default: true) */
+  canAdminsBypass?: boolean;
+}
+
+/** Name of the GitHub deployment environment, or undefined for repository secrets */
+export function githubEnvironmentName(environment: string, config: GitHubEnvironmentConfig): string | undefined {
+  return config.enabled ? config.name ?? environment : undefined;
+}
+
+function createRepositoryEnvironment(
+  repo: string,
+  environment: string,
+  name: string,
+  config: GitHubEnvironmentConfig
+): github.RepositoryEnvironment {
+  const users = (config.reviewers ?? []).map((username) =>
+    github.getUserOutput({ username }).id.apply((id) => Number(id))
+  );
+  const teams = (config.reviewerTeams ?? []).map((slug) =>
+    github.getTeamOutput({ slug }).id.apply((id) => Number(id))
+  );
+  const branches = config.branches ?? [];
+
+  const repositoryEnvironment = new github.RepositoryEnvironment(`github-environment-${environment}`, {
+    repository: repo,
+    environment: name,
+    reviewers: users.length > 0 || teams.length > 0 ? [{ users, teams }] : undefined,
+    preventSelfReview: config.preventSelfReview,
+    waitTimer: config.waitTimerMinutes,
+    canAdminsBypass: config.canAdminsBypass,
+    deploymentBranchPolicy: branches.length > 0 || config.protectedBranches
+      ? { protectedBranches: branches.length === 0, customBranchPolicies: branches.length > 0 }
+      : undefined,
+  });
+
+  for (const pattern of branches) {
+    new github.RepositoryEnvironmentDeploymentPolicy(
+      `github-environment-${environment}-branch-${pattern.replace(/[^A-Za-z0-9._-]/g, "_")}`,
+      {
+        repository: repo,
+        environment: repositoryEnvironment.environment,
+        branchPattern: pattern,
+      }
+    );
+  }
+
+  return repositoryEnvironment;
+}
+
+// ============================================================================
+// Value names
+// ============================================================================
+
+/** Secrets are masked in workflow logs; variables (`vars.*`) are readable */
+export type GitHubValueKind = "secret" | "variable";
+
+export const GITHUB_VALUE_KINDS: Record<string, GitHubValueKind> = {
+  // Per environment
+  FIREBASE_PROJECT_ID: "variable",
+  FIREBASE_PROJECT_NUMBER: "variable",
+  FIREBASE_SERVICE_ACCOUNT: "secret",
+  GCP_SERVICE_ACCOUNT: "variable",
+  GCP_WORKLOAD_IDENTITY_PROVIDER: "secret",
+  GOOGLE_SERVICES_JSON: "secret",
+  GOOGLE_SERVICES_PLIST: "secret",
+  IOS_PROVISION_PROFILE: "secret",
+  FIRESTORE_REGION: "variable",
+  FUNCTIONS_REGION: "variable",
+  FUNCTIONS_SERVICE_ACCOUNT: "variable",
+  FUNCTIONS_ARTIFACT_REPOSITORY: "variable",
+  // Shared, or per environment with androidSigning.perEnvironment
+  ANDROID_KEYSTORE: "secret",
+  KEYSTORE_PASSWORD: "secret",
+  KEY_PASSWORD: "secret",
+  KEY_ALIAS: "variable",
+  // Shared
+  ANDROID_INTERNAL_KEYSTORE: "secret",
+  INTERNAL_KEYSTORE_PASSWORD: "secret",
+  INTERNAL_KEY_PASSWORD: "secret",
+  INTERNAL_KEY_ALIAS: "variable",
+  IOS_BUILD_CERTIFICATE_BASE64: "secret",
+  IOS_P12_PASSWORD: "secret",
+  APPSTORE_API_PRIVATE_KEY: "secret",
+  APPSTORE_API_KEY_ID: "variable",
+  APPSTORE_ISSUER_ID: "variable",
+};
+
+export const DEFAULT_GITHUB_NAME_TEMPLATE = "{NAME}_{ENV}";
+
+export interface GitHubValueName {
+  name: string;
+  kind: GitHubValueKind;
+  /** Deployment environment holding the value; repository-wide when absent */
+  environment?: string;
+}
+
+/**
+ * Resolves a name template. Values without an environment suffix (shared values and
+ * values in a deployment environment) drop `{ENV}` together with its separator, so
+ * `MYAPP_{NAME}_{ENV}` gives `MYAPP_KEY_ALIAS`.
+ */
+export function githubValueName(template: string, name: string, environment?: string): string {
+  const resolved = environment === undefined
+    ? template.replace(/_\{ENV\}|\{ENV\}_?/, "")
+    : template.replace("{ENV}", environment);
+  return resolved.replace("{NAME}", name).toUpperCase();
+}
+
+function createGitHubValue(
+  resourceName: string,
+  repo: string,
+  kind: GitHubValueKind,
+  name: string,
+  value: pulumi.Input<string>,
+  environment?: pulumi.Input<string>
+): pulumi.CustomResource {
+  if (kind === "secret") {
+    return environment
+      ? new github.ActionsEnvironmentSecret(resourceName, {
+          repository: repo,
+          environment,
+          secretName: name,
+          plaintextValue: value,
+        })
+      : new github.ActionsSecret(resourceName, {
+          repository: repo,
+          secretName: name,
+          plaintextValue: value,
+        });
+  }
+  return environment
+    ? new github.ActionsEnvironmentVariable(resourceName, {
+        repository: repo,
+        environment,
+        variableName: name,
+        value,
+      })
+    : new github.ActionsVariable(resourceName, {
+        repository: repo,
+        variableName: name,
+        value,
+      });
+}
+
+// ============================================================================
+// Secrets and variables
+// ============================================================================
 
 export interface GitHubSecretsConfig {
   repository: string;
   firebaseEnvironments: Record<string, {
     projectId: pulumi.Output<string>;
-    serviceAccountKey: pulumi.Output<string>;
+    projectNumber: pulumi.Output<string>;
+    firestoreRegion: string;
+    functionsRegion: string;
+    serviceAccountEmail: pulumi.Output<string>;
+    // A key, or the Workload Identity provider when keyless auth is enabled
+    serviceAccountKey?: pulumi.Output<string>;
+    workloadIdentityProvider?: pulumi.Output<string>;
     googleServicesJson: pulumi.Output<string>;
     googleServicesPlist: pulumi.Output<string>;
+    functions?: FunctionsOutputs;
+    secretManagerApi?: pulumi.Resource;
   }>;
-  androidSigning: {
-    keystoreBase64: pulumi.Output<string>;
-    keystorePassword: pulumi.Output<string>;
-    keyPassword: pulumi.Output<string>;
-    keyAlias: string;
-  };
+  androidSigning: AndroidSigningKeys;
+  iosSigning?: IosSigningOutputs;
   environments: string[];
+  /** Deployment environment settings per Firebase environment */
+  githubEnvironments: Record<string, GitHubEnvironmentConfig>;
+  /** Name template with {NAME} and {ENV} placeholders */
+  nameTemplate: string;
 }
 
 export interface GitHubSecretsOutputs {
   secretsConfigured: pulumi.Output<boolean>;
+  /** GitHub deployment environment per Firebase environment, where enabled */
+  deploymentEnvironments: Record<string, pulumi.Output<string>>;
+  /** Resolved names of the shared values and of each environment's values */
+  names: {
+    shared: Record<string, GitHubValueName>;
+    environments: Record<string, Record<string, GitHubValueName>>;
+  };
 }
 
-export function setupGitHubSecrets(config: GitHubSecretsConfig): GitHubSecretsOutputs {
-  const { repository, firebaseEnvironments, androidSigning, environments } = config;
+/** A value to publish, under its unprefixed name (e.g. FIREBASE_PROJECT_ID) */
+export interface SecretValue {
+  /** Resource name part, e.g. "firebase-project-id" */
+  id: string;
+  name: string;
+  kind: GitHubValueKind;
+  value: pulumi.Input<string>;
+}
 
-  // Parse repository (owner/repo)
-  const [owner, repo] = repository.split("/");
+/**
+ * Every value published per environment and the shared (Android and iOS signing) values. Also
+ * used by the other secret sinks, see sinks.ts.
+ */
+export function secretValues(config: GitHubSecretsConfig): {
+  shared: SecretValue[];
+  environments: Record<string, SecretValue[]>;
+} {
+  const { firebaseEnvironments, androidSigning, iosSigning, environments } = config;
+  const entry = (id: string, name: string, value: pulumi.Input<string>): SecretValue =>
+    ({ id, name, kind: GITHUB_VALUE_KINDS[name], value });
 
-  // ============================================================================
-  // Create GitHub secrets for each Firebase environment
-  // ============================================================================
-
-  const createdSecrets: github.ActionsSecret[] = [];
+  const androidKey = (keys: AndroidSigningKeyOutputs): SecretValue[] => [
+    entry("android-keystore", "ANDROID_KEYSTORE", keys.keystoreBase64),
+    entry("keystore-password", "KEYSTORE_PASSWORD", keys.keystorePassword),
+    entry("key-password", "KEY_PASSWORD", keys.keyPassword),
+    entry("key-alias", "KEY_ALIAS", keys.keyAlias),
+  ];
 
+  const perEnvironment: Record<string, SecretValue[]> = {};
   for (const env of environments) {
     const envData = firebaseEnvironments[env];
+    perEnvironment[env] = [
+      entry("firebase-project-id", "FIREBASE_PROJECT_ID", envData.projectId),
+      entry("firebase-project-number", "FIREBASE_PROJECT_NUMBER", envData.projectNumber),
+      entry("firestore-region", "FIRESTORE_REGION", envData.firestoreRegion),
+      entry("functions-region", "FUNCTIONS_REGION", envData.functionsRegion),
+      entry("gcp-service-account", "GCP_SERVICE_ACCOUNT", envData.serviceAccountEmail),
+    ];
 
-    // Firebase Project ID
-    const projectIdSecret = new github.ActionsSecret(
-      `secret-firebase-project-id-${env}`,
-      {
-        repository: repo,
-        secretName: `FIREBASE_PROJECT_ID_${env.toUpperCase()}`,
-        plaintextValue: envData.projectId,
-      }
-    );
-    createdSecrets.push(projectIdSecret);
+    if (envData.serviceAccountKey) {
+      // Service Account Key (base64 encoded)
+      perEnvironment[env].push(entry("firebase-sa-key", "FIREBASE_SERVICE_ACCOUNT", envData.serviceAccountKey));
+    }
 
-    // Service Account Key (base64 encoded)
-    const serviceAccountSecret = new github.ActionsSecret(
-      `secret-firebase-sa-key-${env}`,
-      {
-        repository: repo,
-        secretName: `FIREBASE_SERVICE_ACCOUNT_${env.toUpperCase()}`,
-        plaintextValue: envData.serviceAccountKey,
-      }
+    if (envData.workloadIdentityProvider) {
+      // Input of google-github-actions/auth for keyless authentication, together with
+      // GCP_SERVICE_ACCOUNT
+      perEnvironment[env].push(
+        entry("gcp-workload-identity-provider", "GCP_WORKLOAD_IDENTITY_PROVIDER", envData.workloadIdentityProvider)
+      );
+    }
+
+    // Runtime account and image repository of the functions deploy
+    if (envData.functions) {
+      perEnvironment[env].push(
+        entry("functions-service-account", "FUNCTIONS_SERVICE_ACCOUNT", envData.functions.runtimeServiceAccountEmail),
+        entry("functions-artifact-repository", "FUNCTIONS_ARTIFACT_REPOSITORY", envData.functions.repository)
+      );
+    }
+
+    // Google Services JSON / PLIST (base64 encoded)
+    perEnvironment[env].push(
+      entry("google-services-json", "GOOGLE_SERVICES_JSON", envData.googleServicesJson),
+      entry("google-services-plist", "GOOGLE_SERVICES_PLIST", envData.googleServicesPlist)
     );
-    createdSecrets.push(serviceAccountSecret);
 
-    // Google Services JSON (base64 encoded)
-    const googleServicesJsonSecret = new github.ActionsSecret(
-      `secret-google-services-json-${env}`,
-      {
-        repository: repo,
-        secretName: `GOOGLE_SERVICES_JSON_${env.toUpperCase()}`,
-        plaintextValue: envData.googleServicesJson,
-      }
+    // Android upload key, when each environment has its own
+    if (androidSigning.perEnvironment) {
+      perEnvironment[env].push(...androidKey(androidSigning.upload[env]));
+    }
+
+    // iOS provisioning profile (base64 encoded)
+    const provisioningProfile = iosSigning?.provisioningProfiles[env];
+    if (provisioningProfile) {
+      perEnvironment[env].push(entry("ios-provision-profile", "IOS_PROVISION_PROFILE", provisioningProfile));
+    }
+  }
+
+  const shared = androidSigning.perEnvironment ? [] : androidKey(androidSigning.upload[environments[0]]);
+
+  // Android key for debug and internal builds
+  const internal = androidSigning.internal;
+  if (internal) {
+    shared.push(
+      entry("android-internal-keystore", "ANDROID_INTERNAL_KEYSTORE", internal.keystoreBase64),
+      entry("internal-keystore-password", "INTERNAL_KEYSTORE_PASSWORD", internal.keystorePassword),
+      entry("internal-key-password", "INTERNAL_KEY_PASSWORD", internal.keyPassword),
+      entry("internal-key-alias", "INTERNAL_KEY_ALIAS", internal.keyAlias)
     );
-    createdSecrets.push(googleServicesJsonSecret);
+  }
 
-    // Google Services PLIST (base64 encoded)
-    const googleServicesPlistSecret = new github.ActionsSecret(
-      `secret-google-services-plist-${env}`,
-      {
-        repository: repo,
-        secretName: `GOOGLE_SERVICES_PLIST_${env.toUpperCase()}`,
-        plaintextValue: envData.googleServicesPlist,
-      }
+  // iOS distribution certificate (.p12, base64 encoded) and App Store Connect API key
+  if (iosSigning?.certificateBase64 && iosSigning.p12Password) {
+    shared.push(
+      entry("ios-certificate", "IOS_BUILD_CERTIFICATE_BASE64", iosSigning.certificateBase64),
+      entry("ios-p12-password", "IOS_P12_PASSWORD", iosSigning.p12Password)
     );
-    createdSecrets.push(googleServicesPlistSecret);
   }
+  if (iosSigning?.appStoreConnect) {
+    shared.push(
+      entry("appstore-api-private-key", "APPSTORE_API_PRIVATE_KEY", iosSigning.appStoreConnect.privateKey),
+      entry("appstore-api-key-id", "APPSTORE_API_KEY_ID", iosSigning.appStoreConnect.keyId),
+      entry("appstore-issuer-id", "APPSTORE_ISSUER_ID", iosSigning.appStoreConnect.issuerId)
+    );
+  }
+
+  return { shared, environments: perEnvironment };
+}
+
+export function setupGitHubSecrets(config: GitHubSecretsConfig): GitHubSecretsOutputs {
+  const { repository, environments, githubEnvironments, nameTemplate } = config;
+
+  // Parse repository (owner/repo)
+  const [owner, repo] = repository.split("/");
+
+  const values = secretValues(config);
+  const createdValues: pulumi.CustomResource[] = [];
+  const deploymentEnvironments: Record<string, pulumi.Output<string>> = {};
+  const names: GitHubSecretsOutputs["names"] = { shared: {}, environments: {} };
 
   // ============================================================================
-  // Create Android signing secrets
+  // Create GitHub secrets and variables for each Firebase environment
   // ============================================================================
 
-  const androidKeystoreSecret = new github.ActionsSecret(
-    "secret-android-keystore",
-    {
-      repository: repo,
-      secretName: "ANDROID_KEYSTORE",
-      plaintextValue: androidSigning.keystoreBase64,
+  for (const env of environments) {
+    const githubEnvironment = githubEnvironments[env] ?? {};
+    const environmentName = githubEnvironmentName(env, githubEnvironment);
+
+    // Repository values carry the environment in their name; inside a deployment
+    // environment it is left out, and only jobs running in that environment see them
+    let repositoryEnvironment: github.RepositoryEnvironment | undefined;
+    if (environmentName) {
+      repositoryEnvironment = createRepositoryEnvironment(repo, env, environmentName, githubEnvironment);
+      deploymentEnvironments[env] = repositoryEnvironment.environment;
     }
-  );
-  createdSecrets.push(androidKeystoreSecret);
-
-  const keystorePasswordSecret = new github.ActionsSecret(
-    "secret-keystore-password",
-    {
-      repository: repo,
-      secretName: "KEYSTORE_PASSWORD",
-      plaintextValue: androidSigning.keystorePassword,
+
+    names.environments[env] = {};
+    for (const { id, name, kind, value } of values.environments[env]) {
+      const valueName = githubValueName(nameTemplate, name, environmentName ? undefined : env);
+      names.environments[env][name] = { name: valueName, kind, environment: environmentName };
+      createdValues.push(
+        createGitHubValue(`${kind}-${id}-${env}`, repo, kind, valueName, value, repositoryEnvironment?.environment)
+      );
     }
-  );
-  createdSecrets.push(keystorePasswordSecret);
+  }
 
-  const keyPasswordSecret = new github.ActionsSecret("secret-key-password", {
-    repository: repo,
-    secretName: "KEY_PASSWORD",
-    plaintextValue: androidSigning.keyPassword,
-  });
-  createdSecrets.push(keyPasswordSecret);
+  // ============================================================================
+  // Create Android and iOS signing secrets and variables
+  // ============================================================================
 
-  const keyAliasSecret = new github.ActionsSecret("secret-key-alias", {
-    repository: repo,
-    secretName: "KEY_ALIAS",
-    plaintextValue: androidSigning.keyAlias,
-  });
-  createdSecrets.push(keyAliasSecret);
+  for (const { id, name, kind, value } of values.shared) {
+    const valueName = githubValueName(nameTemplate, name);
+    names.shared[name] = { name: valueName, kind };
+    createdValues.push(createGitHubValue(`${kind}-${id}`, repo, kind, valueName, value));
+  }
 
   // ============================================================================
   // Return outputs
@@ -126,7 +374,9 @@ export function setupGitHubSecrets(config: GitHubSecretsConfig): GitHubSecretsOu
 
   return {
     secretsConfigured: pulumi
-      .all(createdSecrets.map((s) => s.id))
+      .all(createdValues.map((s) => s.id))
       .apply((ids) => ids.length > 0),
+    deploymentEnvironments,
+    names,
   };
 }
@@ -0,0 +1,383 @@
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+
+// ============================================================================
+// IAM profiles
+// ============================================================================
+
+/** A named set of roles. Roles without a `roles/` prefix refer to `customRoles`. */
+export interface IamProfile {
+  roles: string[];
+}
+
+/** A project-level custom role, created as `projects/<project>/roles/<id>`. */
+export interface IamCustomRole {
+  title?: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface IamServiceAccount {
+  /** Account ID (6-30 characters); "cicd" keeps the historical `<project>-cicd` ID */
+  name: string;
+  profiles: string[];
+  description?: string;
+}
+
+/** Extra bindings for humans or groups, e.g. { member: "group:devs@example.com", roles: ["roles/viewer"] } */
+export interface IamBinding {
+  member: string;
+  roles: string[];
+}
+
+export interface IamConfig {
+  profiles?: Record<string, IamProfile>;
+  customRoles?: Record<string, IamCustomRole>;
+  serviceAccounts?: IamServiceAccount[];
+  bindings?: IamBinding[];
+}
+
+export const BUILT_IN_IAM_PROFILES: Record<string, IamProfile> = {
+  // Everything the Firebase CLI can deploy; the historical CI/CD role set
+  "firebase-admin": {
+    roles: [
+      "roles/firebase.admin",
+      "roles/firebaseauth.admin",
+      "roles/datastore.user",
+      "roles/cloudfunctions.admin",
+      "roles/storage.admin",
+      "roles/iam.serviceAccountUser",
+    ],
+  },
+  "deploy-functions": {
+    roles: [
+      "roles/cloudfunctions.developer",
+      "roles/run.developer",
+      "roles/cloudbuild.builds.editor",
+      "roles/artifactregistry.writer",
+      "roles/iam.serviceAccountUser",
+      "roles/firebase.viewer",
+    ],
+  },
+  "deploy-hosting": {
+    roles: ["roles/firebasehosting.admin", "roles/firebase.viewer"],
+  },
+  "deploy-rules": {
+    roles: ["roles/firebaserules.admin", "roles/datastore.indexAdmin", "roles/firebase.viewer"],
+  },
+  "read-only": {
+    roles: ["roles/firebase.viewer", "roles/datastore.viewer", "roles/storage.objectViewer"],
+  },
+};
+
+export const PRIMARY_SERVICE_ACCOUNT = "cicd";
+
+export const DEFAULT_SERVICE_ACCOUNTS: IamServiceAccount[] = [
+  { name: PRIMARY_SERVICE_ACCOUNT, profiles: ["firebase-admin"] },
+];
+
+export function iamProfiles(iam: IamConfig): Record<string, IamProfile> {
+  return { ...BUILT_IN_IAM_PROFILES, ...iam.profiles };
+}
+
+/** The account whose key/identity is published to CI: "cicd" if present, else the first one. */
+export function primaryServiceAccount(accounts: IamServiceAccount[]): IamServiceAccount {
+  return accounts.find((account) => account.name === PRIMARY_SERVICE_ACCOUNT) ?? accounts[0];
+}
+
+/**
+ * Roles granted by a list of profiles, deduplicated, in profile order.
+ */
+export function profileRoles(iam: IamConfig, profiles: string[]): string[] {
+  const definitions = iamProfiles(iam);
+  return [...new Set(profiles.flatMap((profile) => definitions[profile]?.roles ?? []))];
+}
+
+// ============================================================================
+// Service accounts and bindings
+// ============================================================================
+
+export interface IamSetupConfig {
+  projectName: string;
+  project: pulumi.Input<string>;
+  iam: IamConfig;
+  dependsOn: pulumi.Resource[];
+}
+
+export interface IamOutputs {
+  primaryAccount: gcp.serviceaccount.Account;
+  /** Role bindings of the primary account, for resources that need it fully set up */
+  primaryBindings: gcp.projects.IAMMember[];
+  serviceAccountEmails: pulumi.Output<Record<string, string>>;
+}
+
+export function roleSlug(role: string): string {
+  return role.replace(/\//g, "-").replace(/\./g, "-");
+}
+
+function memberSlug(member: string): string {
+  return member.replace(/[^A-Za-z0-9]+/g, "-").toLowerCase();
+}
+
+export function setupIam(config: IamSetupConfig): IamOutputs {
+  const { projectName, project, iam, dependsOn } = config;
+  const accounts = iam.serviceAccounts ?? DEFAULT_SERVICE_ACCOUNTS;
+  const primary = primaryServiceAccount(accounts);
+
+  // Custom roles, referenced from profiles and bindings by their ID
+  const customRoles: Record<string, gcp.projects.IAMCustomRole> = {};
+  for (const [roleId, definition] of Object.entries(iam.customRoles ?? {})) {
+    customRoles[roleId] = new gcp.projects.IAMCustomRole(
+      `${projectName}-role-${roleId}`,
+      {
+        project,
+        roleId,
+        title: definition.title ?? roleId,
+        description: definition.description,
+        permissions: definition.permissions,
+      },
+      {
+        dependsOn,
+      }
+    );
+  }
+
+  const roleName = (role: string): pulumi.Input<string> =>
+    customRoles[role] ? customRoles[role].name : role;
+
+  const accountResources: Record<string, gcp.serviceaccount.Account> = {};
+  let primaryBindings: gcp.projects.IAMMember[] = [];
+
+  for (const account of accounts) {
+    const isPrimary = account === primary;
+    // The primary account keeps its original resource and binding names
+    const resourceName = isPrimary ? `${projectName}-sa` : `${projectName}-sa-${account.name}`;
+
+    const serviceAccount = new gcp.serviceaccount.Account(
+      resourceName,
+      {
+        project,
+        accountId: account.name === PRIMARY_SERVICE_ACCOUNT ? `${projectName}-cicd` : account.name,
+        displayName: isPrimary
+          ? `CI/CD Service Account for ${projectName}`
+          : `${account.name} (${account.profiles.join(", ")}) for ${projectName}`,
+        description: account.description ?? (isPrimary ? "Service account for GitHub Actions CI/CD" : undefined),
+      },
+      {
+        dependsOn,
+      }
+    );
+    accountResources[account.name] = serviceAccount;
+
+    const bindings = profileRoles(iam, account.profiles).map(
+      (role) =>
+        new gcp.projects.IAMMember(
+          `${resourceName}-${roleSlug(role)}`,
+          {
+            project,
+            role: roleName(role),
+            member: pulumi.interpolate`serviceAccount:${serviceAccount.email}`,
+          }
+        )
+    );
+    if (isPrimary) {
+      primaryBindings = bindings;
+    }
+  }
+
+  for (const binding of iam.bindings ?? []) {
+    for (const role of binding.roles) {
+      new gcp.projects.IAMMember(
+        `${projectName}-iam-${memberSlug(binding.member)}-${roleSlug(role)}`,
+        {
+          project,
+          role: roleName(role),
+          member: binding.member,
+        },
+        {
+          dependsOn,
+        }
+      );
+    }
+  }
+
+  const names = Object.keys(accountResources);
+  return {
+    primaryAccount: accountResources[primary.name],
+    primaryBindings,
+    serviceAccountEmails: pulumi
+      .all(names.map((name) => accountResources[name].email))
+      .apply((emails) => Object.fromEntries(names.map((name, i) => [name, emails[i]]))),
+  };
+}
+
+// ============================================================================
+// Workload Identity Federation (keyless GitHub Actions auth)
+// ============================================================================
+
+export const GITHUB_OIDC_ISSUER = "https://token.actions.githubusercontent.com";
+
+export interface WorkloadIdentityConfig {
+  /** Authenticate GitHub Actions through OIDC instead of a service account key */
+  enabled?: boolean;
+  /** Only tokens for this branch, e.g. "main" */
+  branch?: string;
+  /** Only jobs running in this GitHub environment */
+  githubEnvironment?: string;
+}
+
+export interface WorkloadIdentitySetupConfig {
+  projectName: string;
+  project: pulumi.Input<string>;
+  repository: string;
+  serviceAccount: gcp.serviceaccount.Account;
+  workloadIdentity: WorkloadIdentityConfig;
+  dependsOn: pulumi.Resource[];
+}
+
+export interface WorkloadIdentityOutputs {
+  /** Full provider resource name, the `workload_identity_provider` input of google-github-actions/auth */
+  providerName: pulumi.Output<string>;
+}
+
+/**
+ * CEL condition on the GitHub token claims: always the repository, plus the branch and
+ * GitHub environment when configured.
+ */
+export function githubAttributeCondition(repository: string, workloadIdentity: WorkloadIdentityConfig): string {
+  const conditions = [`assertion.repository == '${repository}'`];
+  if (workloadIdentity.branch) {
+    conditions.push(`assertion.ref == 'refs/heads/${workloadIdentity.branch}'`);
+  }
+  if (workloadIdentity.githubEnvironment) {
+    conditions.push(`assertion.environment == '${workloadIdentity.githubEnvironment}'`);
+  }
+  return conditions.join(" && ");
+}
+
+export function setupWorkloadIdentity(config: WorkloadIdentitySetupConfig): WorkloadIdentityOutputs {
+  const { projectName, project, repository, serviceAccount, workloadIdentity, dependsOn } = config;
+
+  // Deleted pools are kept for 30 days and their IDs can't be reused in that time
+  const pool = new gcp.iam.WorkloadIdentityPool(
+    `${projectName}-github-pool`,
+    {
+      project,
+      workloadIdentityPoolId: "github",
+      displayName: "GitHub Actions",
+      description: `GitHub Actions OIDC tokens for ${repository}`,
+    },
+    {
+      dependsOn,
+    }
+  );
+
+  const provider = new gcp.iam.WorkloadIdentityPoolProvider(
+    `${projectName}-github-provider`,
+    {
+      project,
+      workloadIdentityPoolId: pool.workloadIdentityPoolId,
+      workloadIdentityPoolProviderId: "github-actions",
+      displayName: "GitHub Actions",
+      attributeMapping: {
+        "google.subject": "assertion.sub",
+        "attribute.repository": "assertion.repository",
+        "attribute.ref": "assertion.ref",
+        "attribute.environment": "assertion.environment",
+      },
+      attributeCondition: githubAttributeCondition(repository, workloadIdentity),
+      oidc: {
+        issuerUri: GITHUB_OIDC_ISSUER,
+      },
+    }
+  );
+
+  // The provider's condition already limits tokens to the repository (and branch or
+  // environment); the binding covers everything the pool lets through
+  new gcp.serviceaccount.IAMMember(
+    `${projectName}-sa-workload-identity-user`,
+    {
+      serviceAccountId: serviceAccount.name,
+      role: "roles/iam.workloadIdentityUser",
+      member: pulumi.interpolate`principalSet://iam.googleapis.com/${pool.name}/attribute.repository/${repository}`,
+    }
+  );
+
+  return {
+    providerName: provider.name,
+  };
+}
+
+// ============================================================================
+// Service account keys and rotation
+// ============================================================================
+
+export const DEFAULT_KEY_OVERLAP_DAYS = 7;
+
+/** Stack config key holding the `KeyRotationState` of every environment */
+export const KEY_ROTATION_STATE_CONFIG_KEY = "keyRotationState";
+
+export interface KeyRotationConfig {
+  /** Create a new key on the first deploy after the current one is this many days old */
+  rotationDays?: number;
+  /** How long the replaced key stays valid after a rotation */
+  overlapDays?: number;
+}
+
+/**
+ * Key generations per environment, kept in the stack config (`keyRotationState`) by the
+ * CLI: the program itself can't remember when a key was created.
+ */
+export interface KeyRotationState {
+  generation: number;
+  createdAt: string;
+  previousGeneration?: number;
+  previousExpiresAt?: string;
+}
+
+export interface ServiceAccountKeysConfig {
+  projectName: string;
+  serviceAccount: gcp.serviceaccount.Account;
+  state?: KeyRotationState;
+  dependsOn: pulumi.Resource[];
+}
+
+// Generation 0 is the original `<project>-sa-key`, so enabling rotation doesn't replace it
+function keyResourceName(projectName: string, generation: number): string {
+  return generation === 0 ? `${projectName}-sa-key` : `${projectName}-sa-key-${generation}`;
+}
+
+/**
+ * Creates the current key and, during the overlap window after a rotation, keeps the
+ * previous one. Once the previous generation drops out of the state it is deleted.
+ */
+export function setupServiceAccountKeys(config: ServiceAccountKeysConfig): gcp.serviceaccount.Key {
+  const { projectName, serviceAccount, state, dependsOn } = config;
+  const generations = [state?.generation ?? 0];
+  if (state?.previousGeneration !== undefined) {
+    generations.push(state.previousGeneration);
+  }
+
+  const [current] = generations.map(
+    (generation) =>
+      new gcp.serviceaccount.Key(
+        keyResourceName(projectName, generation),
+        {
+          serviceAccountId: serviceAccount.name,
+        },
+        {
+          dependsOn,
+        }
+      )
+  );
+  return current;
+}
+
+/** Date from which deploys rotate the key, or null without a rotation policy */
+export function nextKeyRotation(state: KeyRotationState | undefined, rotation: KeyRotationConfig): string | null {
+  if (!state || !rotation.rotationDays) {
+    return null;
+  }
+  const createdAt = new Date(state.createdAt).getTime();
+  return new Date(createdAt + rotation.rotationDays * 24 * 60 * 60 * 1000).toISOString();
+}
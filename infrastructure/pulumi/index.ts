@@ -1,13 +1,34 @@
 import * as pulumi from "@pulumi/pulumi";
 import { createFirebaseEnvironment } from "./firebase";
-import { setupGitHubSecrets } from "./github";
-import { generateAndroidSigningKey } from "./android";
+import { DEFAULT_GITHUB_NAME_TEMPLATE, GitHubEnvironmentConfig } from "./github";
+import { DEFAULT_SECRET_SINKS, SecretSinkConfig, setupSecretSinks } from "./sinks";
+import { AndroidSigningConfig, PREVIOUS_KEYSTORES_CONFIG_KEY, setupAndroidSigningKeys } from "./android";
+import { IosSigningConfig, IosSigningOutputs, setupIosSigning } from "./ios";
+import type { FirestoreBackupConfig, FirestoreBackupsOutputs, FirestoreTtlField } from "./firestore";
+import { DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY, StorageConfig } from "./storage";
+import type { AuthConfig, AuthOutputs, AuthSecrets } from "./auth";
+import type { FunctionsConfig, FunctionsOutputs, FunctionsSecretValues } from "./functions";
+import {
+  IamConfig,
+  KEY_ROTATION_STATE_CONFIG_KEY,
+  KeyRotationConfig,
+  KeyRotationState,
+  WorkloadIdentityConfig,
+  nextKeyRotation,
+} from "./iam";
+import {
+  DEFAULT_ENVIRONMENTS,
+  EnvironmentEntry,
+  assertValidDeployOptions,
+  resolveEnvironments,
+} from "./config";
 
 // Get configuration
 const config = new pulumi.Config();
 const projectBaseName = config.require("projectBaseName");
 const organization = config.require("organization");
-const environments = config.requireObject<string[]>("environments");
+// Each entry is an environment name or an object with a name and per-environment overrides
+const environmentEntries = config.getObject<EnvironmentEntry[]>("environments") ?? DEFAULT_ENVIRONMENTS;
 const githubRepo = config.require("githubRepo");
 
 // Optional GCP configuration
@@ -29,6 +50,131 @@ const iosBundleId = config.require("iosBundleId");
 const firebaseFunctionsRegion = config.get("firebaseFunctionsRegion") || "europe-west1";
 const firestoreRegion = config.get("firestoreRegion") || "eur3";
 
+// Security rules (paths relative to this directory)
+const firestoreRulesPath = config.get("firestoreRulesPath");
+const storageRulesPath = config.get("storageRulesPath");
+
+// Authentication providers and policies, with the Google and Apple provider secrets
+const auth = config.getObject<AuthConfig>("auth");
+const authSecrets: AuthSecrets = {
+  googleClientSecret: config.getSecret("authGoogleClientSecret"),
+  applePrivateKey: config.getSecret("authApplePrivateKey"),
+};
+
+// Cloud Functions foundations, with the values of the declared secrets
+const functions = config.getObject<FunctionsConfig>("functions");
+const functionsSecretValues = config.getSecretObject<FunctionsSecretValues>("functionsSecretValues");
+
+// Firestore indexes and TTL policies
+const firestoreIndexesPath = config.get("firestoreIndexesPath");
+const firestoreTtlFields = config.getObject<FirestoreTtlField[]>("firestoreTtlFields");
+const firestoreBackups = config.getObject<FirestoreBackupConfig>("firestoreBackups");
+
+// Storage buckets
+const storage = config.getObject<StorageConfig>("storage");
+
+// Service accounts, IAM profiles and extra bindings
+const iam = config.getObject<IamConfig>("iam");
+const workloadIdentity = config.getObject<WorkloadIdentityConfig>("workloadIdentity");
+const keyRotation = config.getObject<KeyRotationConfig>("keyRotation");
+
+// GitHub deployment environments
+const githubEnvironments = config.getObject<GitHubEnvironmentConfig>("githubEnvironments");
+const githubNameTemplate = config.get("githubNameTemplate");
+
+// Android signing keys, and the passwords of an imported keystore
+const androidSigningConfig = config.getObject<AndroidSigningConfig>("androidSigning");
+const androidKeystorePassword = config.getSecret("androidKeystorePassword");
+const androidKeyPassword = config.getSecret("androidKeyPassword");
+const androidCertificateFingerprints = config.getObject<string[]>("androidCertificateFingerprints");
+
+// iOS distribution signing (certificate, provisioning profiles, App Store Connect key)
+const iosSigningConfig = config.getObject<IosSigningConfig>("iosSigning");
+
+// Where secrets are published, with the credentials the sinks need
+const secretSinks = config.getObject<SecretSinkConfig[]>("secretSinks");
+const gitlabToken = config.getSecret("gitlabToken");
+const secretsFilePassphrase = config.getSecret("secretsFilePassphrase");
+
+// Key generations written by the CLI (see key-rotation.ts); not a user setting
+const keyRotationState =
+  config.getObject<Record<string, KeyRotationState>>(KEY_ROTATION_STATE_CONFIG_KEY) ?? {};
+// keytool-generated keystores to adopt, also written by the CLI
+const previousAndroidKeystores = config.getSecretObject<Record<string, string>>(PREVIOUS_KEYSTORES_CONFIG_KEY);
+// Locations of default buckets that already exist, by project (see storage.ts)
+const defaultBucketLocations =
+  config.getObject<Record<string, string>>(DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY) ?? {};
+
+// Validate before creating any resources, so a bad value fails here instead of as a
+// GCP or Firebase error halfway through the update. Raw stack config is included so
+// unknown keys are reported too.
+const configPrefix = `${pulumi.getProject()}:`;
+const cliConfigKeys = [
+  KEY_ROTATION_STATE_CONFIG_KEY,
+  PREVIOUS_KEYSTORES_CONFIG_KEY,
+  DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY,
+].map((key) => `${configPrefix}${key}`);
+const rawStackConfig = Object.fromEntries(
+  Object.entries(pulumi.runtime.allConfig())
+    .filter(([key]) => key.startsWith(configPrefix) && !cliConfigKeys.includes(key))
+    .map(([key, value]) => [key.slice(configPrefix.length), value])
+);
+
+const deployOptions = assertValidDeployOptions({
+  ...rawStackConfig,
+  projectBaseName,
+  organization,
+  environments: environmentEntries,
+  githubRepo,
+  androidPackageName,
+  iosBundleId,
+  gcpBillingAccount,
+  gcpOrganizationId,
+  firestoreRegion,
+  firebaseFunctionsRegion,
+  enableAuth,
+  enableFirestore,
+  enableFunctions,
+  enableStorage,
+  enableHosting,
+  firestoreRulesPath,
+  storageRulesPath,
+  auth,
+  functions,
+  firestoreIndexesPath,
+  firestoreTtlFields,
+  firestoreBackups,
+  storage,
+  iam,
+  workloadIdentity,
+  keyRotation,
+  githubEnvironments,
+  githubNameTemplate,
+  secretSinks,
+  androidSigning: androidSigningConfig,
+  androidCertificateFingerprints,
+  iosSigning: iosSigningConfig,
+});
+
+// Global settings merged with each environment's overrides
+const environmentConfigs = resolveEnvironments(deployOptions);
+const environments = environmentConfigs.map((env) => env.environment);
+
+// ============================================================================
+// Android signing keys (shared across environments unless perEnvironment)
+// ============================================================================
+
+const androidSigning = setupAndroidSigningKeys({
+  name: projectBaseName,
+  organization,
+  environments,
+  signing: androidSigningConfig ?? {},
+  keystorePassword: androidKeystorePassword,
+  keyPassword: androidKeyPassword,
+  previousKeystores: previousAndroidKeystores,
+});
+const sharedAndroidKey = androidSigning.perEnvironment ? undefined : androidSigning.upload[environments[0]];
+
 // ============================================================================
 // Create Firebase environments
 // ============================================================================
@@ -38,56 +184,77 @@ interface FirebaseEnvironmentOutputs {
   projectNumber: pulumi.Output<string>;
   webApiKey: pulumi.Output<string>;
   serviceAccountEmail: pulumi.Output<string>;
-  serviceAccountKey: pulumi.Output<string>;
+  serviceAccountKey?: pulumi.Output<string>;
+  workloadIdentityProvider?: pulumi.Output<string>;
   googleServicesJson: pulumi.Output<string>;
   googleServicesPlist: pulumi.Output<string>;
+  firestoreBackups?: FirestoreBackupsOutputs;
+  storageBuckets: pulumi.Output<string>[];
+  serviceAccountEmails: pulumi.Output<Record<string, string>>;
+  androidCertificateFingerprints: pulumi.Output<{ sha1: string[]; sha256: string[] }>;
+  auth?: AuthOutputs;
+  functions?: FunctionsOutputs;
+  secretManagerApi?: pulumi.Resource;
 }
 
 const firebaseEnvironments: Record<string, FirebaseEnvironmentOutputs> = {};
 
-for (const env of environments) {
-  const projectName = `${projectBaseName}-${env}`;
-
-  pulumi.log.info(`Creating Firebase environment: ${projectName}`);
-
-  const environment = createFirebaseEnvironment({
-    projectName,
-    environment: env,
-    billingAccount: gcpBillingAccount,
-    organizationId: gcpOrganizationId,
-    enableAuth,
-    enableFirestore,
-    enableFunctions,
-    enableStorage,
-    enableHosting,
-    androidPackageName: `${androidPackageName}.${env}`,
-    iosBundleId: `${iosBundleId}.${env}`,
-    firestoreRegion,
-    functionsRegion: firebaseFunctionsRegion,
-  });
+for (const envConfig of environmentConfigs) {
+  pulumi.log.info(`Creating Firebase environment: ${envConfig.projectName}`);
 
-  firebaseEnvironments[env] = environment;
+  firebaseEnvironments[envConfig.environment] = createFirebaseEnvironment({
+    ...envConfig,
+    keyRotationState: keyRotationState[envConfig.environment],
+    existingDefaultBucketLocation: defaultBucketLocations[envConfig.projectName],
+    authSecrets,
+    functionsSecretValues,
+    androidSigningKeys: [
+      androidSigning.upload[envConfig.environment],
+      ...(androidSigning.internal ? [androidSigning.internal] : []),
+    ],
+  });
 }
 
 // ============================================================================
-// Generate Android signing key (shared across environments)
+// iOS signing (shared across environments, optional)
 // ============================================================================
 
-const androidSigning = generateAndroidSigningKey({
-  keyAlias: `${projectBaseName}-key`,
-  organization: organization,
-  commonName: projectBaseName,
-});
+let iosSigning: IosSigningOutputs | undefined;
+if (iosSigningConfig) {
+  iosSigning = setupIosSigning({
+    ...iosSigningConfig,
+    name: projectBaseName,
+    organization,
+    commonName: projectBaseName,
+  });
+}
 
 // ============================================================================
-// Setup GitHub secrets
+// Publish secrets (GitHub, GitLab, Secret Manager, local file)
 // ============================================================================
 
-const githubSecrets = setupGitHubSecrets({
+const publishedSecrets = setupSecretSinks({
+  sinks: secretSinks ?? DEFAULT_SECRET_SINKS,
+  gitlabToken,
+  secretsFilePassphrase,
   repository: githubRepo,
-  firebaseEnvironments,
+  firebaseEnvironments: Object.fromEntries(
+    environmentConfigs.map((envConfig) => [
+      envConfig.environment,
+      {
+        ...firebaseEnvironments[envConfig.environment],
+        firestoreRegion: envConfig.firestoreRegion,
+        functionsRegion: envConfig.functionsRegion,
+      },
+    ])
+  ),
   androidSigning,
+  iosSigning,
   environments,
+  githubEnvironments: Object.fromEntries(
+    environmentConfigs.map((envConfig) => [envConfig.environment, envConfig.githubEnvironments])
+  ),
+  nameTemplate: githubNameTemplate || DEFAULT_GITHUB_NAME_TEMPLATE,
 });
 
 // ============================================================================
@@ -105,9 +272,26 @@ for (const env of environments) {
 }
 
 // Service accounts
+for (const envConfig of environmentConfigs) {
+  const state = keyRotationState[envConfig.environment];
+  if (state && !envConfig.workloadIdentity.enabled) {
+    firebaseOutputs[`service_account_key_rotation_${envConfig.environment}`] = {
+      generation: state.generation,
+      createdAt: state.createdAt,
+      nextRotation: nextKeyRotation(state, envConfig.keyRotation),
+    };
+  }
+}
 for (const env of environments) {
   firebaseOutputs[`service_account_email_${env}`] = firebaseEnvironments[env].serviceAccountEmail;
-  firebaseOutputs[`service_account_key_${env}`] = pulumi.secret(firebaseEnvironments[env].serviceAccountKey);
+  const { serviceAccountKey, workloadIdentityProvider } = firebaseEnvironments[env];
+  if (serviceAccountKey) {
+    firebaseOutputs[`service_account_key_${env}`] = pulumi.secret(serviceAccountKey);
+  }
+  if (workloadIdentityProvider) {
+    firebaseOutputs[`workload_identity_provider_${env}`] = workloadIdentityProvider;
+  }
+  firebaseOutputs[`service_accounts_${env}`] = firebaseEnvironments[env].serviceAccountEmails;
 }
 
 // Configuration files (base64 encoded for GitHub secrets)
@@ -116,34 +300,129 @@ for (const env of environments) {
   firebaseOutputs[`google_services_plist_${env}`] = pulumi.secret(firebaseEnvironments[env].googleServicesPlist);
 }
 
+// Signing certificate fingerprints registered on the Android apps
+for (const env of environments) {
+  const { sha1Fingerprint, sha256Fingerprint } = androidSigning.upload[env];
+  firebaseOutputs[`android_key_fingerprints_${env}`] = { sha1: sha1Fingerprint, sha256: sha256Fingerprint };
+  firebaseOutputs[`android_certificate_fingerprints_${env}`] = firebaseEnvironments[env].androidCertificateFingerprints;
+}
+
+// Sign-in methods and authorized domains
+for (const env of environments) {
+  const authOutputs = firebaseEnvironments[env].auth;
+  if (authOutputs) {
+    firebaseOutputs[`auth_sign_in_methods_${env}`] = authOutputs.signInMethods;
+    firebaseOutputs[`auth_authorized_domains_${env}`] = authOutputs.authorizedDomains;
+  }
+}
+
+// Names the functions deploy needs: image repository, runtime account and secrets
+for (const env of environments) {
+  const functionsOutputs = firebaseEnvironments[env].functions;
+  if (functionsOutputs) {
+    firebaseOutputs[`functions_repository_${env}`] = functionsOutputs.repository;
+    firebaseOutputs[`functions_service_account_${env}`] = functionsOutputs.runtimeServiceAccountEmail;
+    firebaseOutputs[`functions_secrets_${env}`] = functionsOutputs.secretIds;
+  }
+}
+
+// Storage bucket names (default bucket first)
+for (const env of environments) {
+  if (firebaseEnvironments[env].storageBuckets.length > 0) {
+    firebaseOutputs[`storage_buckets_${env}`] = firebaseEnvironments[env].storageBuckets;
+  }
+}
+
+// Firestore data protection (PITR, delete protection, backup schedules, export bucket)
+for (const env of environments) {
+  const backups = firebaseEnvironments[env].firestoreBackups;
+  if (backups) {
+    firebaseOutputs[`firestore_backups_${env}`] = backups;
+  }
+}
+
+const githubSecrets = publishedSecrets.github;
+if (githubSecrets) {
+  // GitHub deployment environments holding each environment's secrets
+  for (const [env, name] of Object.entries(githubSecrets.deploymentEnvironments)) {
+    firebaseOutputs[`github_environment_${env}`] = name;
+  }
+
+  // Resolved GitHub secret and variable names, for generating workflows
+  firebaseOutputs.github_names = githubSecrets.names;
+}
+
+// Other secret sinks
+if (publishedSecrets.gitlabVariables) {
+  firebaseOutputs.gitlab_variables = publishedSecrets.gitlabVariables;
+}
+for (const [env, secretIds] of Object.entries(publishedSecrets.secretManagerSecrets ?? {})) {
+  firebaseOutputs[`secret_manager_secrets_${env}`] = secretIds;
+}
+if (publishedSecrets.secretsFile) {
+  firebaseOutputs.secrets_file = publishedSecrets.secretsFile;
+}
+
+// Android keys of each environment, or the internal key
+if (androidSigning.perEnvironment) {
+  for (const env of environments) {
+    const key = androidSigning.upload[env];
+    firebaseOutputs[`android_keystore_${env}`] = pulumi.secret(key.keystoreBase64);
+    firebaseOutputs[`android_keystore_password_${env}`] = pulumi.secret(key.keystorePassword);
+    firebaseOutputs[`android_key_password_${env}`] = pulumi.secret(key.keyPassword);
+    firebaseOutputs[`android_key_alias_${env}`] = key.keyAlias;
+  }
+}
+if (androidSigning.internal) {
+  firebaseOutputs.android_internal_keystore = pulumi.secret(androidSigning.internal.keystoreBase64);
+  firebaseOutputs.android_internal_keystore_password = pulumi.secret(androidSigning.internal.keystorePassword);
+  firebaseOutputs.android_internal_key_password = pulumi.secret(androidSigning.internal.keyPassword);
+  firebaseOutputs.android_internal_key_alias = androidSigning.internal.keyAlias;
+}
+
+// iOS signing: the CSR to upload to Apple, then the imported certificate's expiry
+if (iosSigning) {
+  firebaseOutputs.ios_certificate_signing_request = iosSigning.certificateSigningRequest;
+  if (iosSigning.certificateExpiresAt) {
+    firebaseOutputs.ios_certificate_expires_at = iosSigning.certificateExpiresAt;
+  }
+  if (iosSigning.appStoreConnect) {
+    firebaseOutputs.app_store_connect_key_id = iosSigning.appStoreConnect.keyId;
+  }
+}
+
 // Export all outputs using module.exports for proper Pulumi export
 module.exports = {
   ...firebaseOutputs,
-  // Android signing
-  androidKeystore: pulumi.secret(androidSigning.keystoreBase64),
-  androidKeystorePassword: pulumi.secret(androidSigning.keystorePassword),
-  androidKeyPassword: pulumi.secret(androidSigning.keyPassword),
-  androidKeyAlias: androidSigning.keyAlias,
+  // Android signing (shared key)
+  ...(sharedAndroidKey && {
+    androidKeystore: pulumi.secret(sharedAndroidKey.keystoreBase64),
+    androidKeystorePassword: pulumi.secret(sharedAndroidKey.keystorePassword),
+    androidKeyPassword: pulumi.secret(sharedAndroidKey.keyPassword),
+    androidKeyAlias: sharedAndroidKey.keyAlias,
+  }),
   // GitHub secrets status
-  githubSecretsConfigured: githubSecrets.secretsConfigured,
+  githubSecretsConfigured: githubSecrets?.secretsConfigured ?? false,
   // Summary
   summary: pulumi.interpolate`🎉 Firebase Infrastructure Created Successfully!
 
 📦 Projects Created:
-${environments.map(env => `   - ${projectBaseName}-${env}`).join('\n')}
+${environmentConfigs.map(env => `   - ${env.projectName}`).join('\n')}
 
 🔥 Services Enabled:
-   ${enableAuth ? '✅' : '❌'} Firebase Authentication
-   ${enableFirestore ? '✅' : '❌'} Cloud Firestore
-   ${enableFunctions ? '✅' : '❌'} Cloud Functions
-   ${enableStorage ? '✅' : '❌'} Cloud Storage
-   ${enableHosting ? '✅' : '❌'} Firebase Hosting
+${environmentConfigs.map(env => `   ${env.environment}:
+      ${env.enableAuth ? '✅' : '❌'} Firebase Authentication
+      ${env.enableFirestore ? '✅' : '❌'} Cloud Firestore${env.enableFirestore ? ` (${env.firestoreRegion})` : ''}
+      ${env.enableFunctions ? '✅' : '❌'} Cloud Functions${env.enableFunctions ? ` (${env.functionsRegion})` : ''}
+      ${env.enableStorage ? '✅' : '❌'} Cloud Storage
+      ${env.enableHosting ? '✅' : '❌'} Firebase Hosting`).join('\n')}
 
 🔐 Security:
    ✅ Service accounts created
    ✅ API keys generated
-   ✅ Android signing key generated
-   ✅ GitHub secrets configured
+   ✅ Android signing ${androidSigning.perEnvironment ? 'keys per environment' : 'key'}${androidSigningConfig?.import ? ' (imported)' : ' generated'}${iosSigning ? `
+   ${iosSigning.certificateBase64 ? '✅ iOS distribution certificate imported' : '⏳ iOS CSR generated (upload it to Apple, then set iosSigning.certificatePath)'}` : ''}
+   ✅ Secrets published to: ${(secretSinks ?? DEFAULT_SECRET_SINKS).map(sink => sink.type).join(', ')}
 
 📱 Apps Registered:
    ✅ Android apps (${environments.length} flavors)
@@ -0,0 +1,145 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as random from "@pulumi/random";
+import * as command from "@pulumi/command";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { projectPath } from "./paths";
+
+export interface IosSigningConfig {
+  /** Apple Developer account email, part of the certificate signing request */
+  email: string;
+  keySize?: number; // default 2048
+  /** Distribution certificate Apple issued for the CSR (.cer, DER or PEM) */
+  certificatePath?: string;
+  /** .mobileprovision file per environment */
+  provisioningProfiles?: Record<string, string>;
+  /** App Store Connect API key (AuthKey_<KEY ID>.p8) */
+  appStoreConnectApiKeyPath?: string;
+  /** Defaults to the key ID in the AuthKey_<KEY ID>.p8 file name */
+  appStoreConnectKeyId?: string;
+  appStoreConnectIssuerId?: string;
+}
+
+export interface IosSigningSetupConfig extends IosSigningConfig {
+  name: string;
+  organization: string;
+  commonName: string;
+}
+
+export interface IosSigningOutputs {
+  /** Upload to developer.apple.com to get the distribution certificate */
+  certificateSigningRequest: pulumi.Output<string>;
+  // Only once the issued certificate is imported
+  certificateBase64?: pulumi.Output<string>;
+  p12Password?: pulumi.Output<string>;
+  certificateExpiresAt?: string;
+  provisioningProfiles: Record<string, pulumi.Output<string>>;
+  appStoreConnect?: {
+    keyId: string;
+    issuerId: string;
+    privateKey: pulumi.Output<string>;
+  };
+}
+
+// The AuthKey_<KEY ID>.p8 name App Store Connect downloads keys with
+const APP_STORE_CONNECT_KEY_FILE = /^AuthKey_([A-Z0-9]{10})\.p8$/;
+
+export function appStoreConnectKeyId(config: IosSigningConfig): string | undefined {
+  if (config.appStoreConnectKeyId) {
+    return config.appStoreConnectKeyId;
+  }
+  const match = path.basename(config.appStoreConnectApiKeyPath ?? "").match(APP_STORE_CONNECT_KEY_FILE);
+  return match?.[1];
+}
+
+/** Reads a .cer file, which Apple serves as DER, though PEM works too */
+export function readCertificate(certificatePath: string): crypto.X509Certificate {
+  return new crypto.X509Certificate(fs.readFileSync(projectPath(certificatePath)));
+}
+
+export function setupIosSigning(config: IosSigningSetupConfig): IosSigningOutputs {
+  const { name, organization, commonName, email, keySize = 2048 } = config;
+
+  // ============================================================================
+  // Generate private key and certificate signing request
+  // ============================================================================
+
+  const privateKey = new command.local.Command(
+    `${name}-ios-private-key`,
+    {
+      create: `openssl genrsa ${keySize} 2>/dev/null`,
+    },
+    {
+      additionalSecretOutputs: ["stdout"],
+    }
+  );
+
+  const certificateSigningRequest = new command.local.Command(`${name}-ios-csr`, {
+    create: `openssl req -new -key /dev/stdin -subj "$CSR_SUBJECT"`,
+    stdin: privateKey.stdout,
+    environment: { CSR_SUBJECT: `/emailAddress=${email}/CN=${commonName}/O=${organization}` },
+  });
+
+  const outputs: IosSigningOutputs = {
+    certificateSigningRequest: certificateSigningRequest.stdout,
+    provisioningProfiles: {},
+  };
+
+  // ============================================================================
+  // Import the issued certificate into a password-protected .p12
+  // ============================================================================
+
+  if (config.certificatePath) {
+    const certificatePath = config.certificatePath;
+    const certificate = readCertificate(certificatePath);
+    // Fail here rather than in Xcode when the certificate is for another key
+    const keyAndCertificate = privateKey.stdout.apply((pem) => {
+      if (!certificate.checkPrivateKey(crypto.createPrivateKey(pem))) {
+        throw new Error(`${certificatePath} was not issued for this stack's iOS signing key`);
+      }
+      return `${pem}\n${certificate.toString()}`;
+    });
+
+    const p12Password = new random.RandomPassword(`${name}-ios-p12-password`, {
+      length: 32,
+      special: false,
+    });
+
+    // 3DES/SHA1 instead of OpenSSL 3's AES default, which older macOS keychains can't import
+    const p12 = new command.local.Command(
+      `${name}-ios-p12`,
+      {
+        create: `openssl pkcs12 -export -passout env:P12_PASSWORD -certpbe PBE-SHA1-3DES -keypbe PBE-SHA1-3DES -macalg sha1 | base64 | tr -d '\\n'`,
+        stdin: keyAndCertificate,
+        environment: { P12_PASSWORD: p12Password.result },
+        triggers: [certificate.fingerprint256, p12Password.result],
+      },
+      {
+        additionalSecretOutputs: ["stdout"],
+      }
+    );
+
+    outputs.certificateBase64 = p12.stdout;
+    outputs.p12Password = p12Password.result;
+    outputs.certificateExpiresAt = new Date(certificate.validTo).toISOString();
+  }
+
+  // ============================================================================
+  // Provisioning profiles and App Store Connect API key
+  // ============================================================================
+
+  for (const [environment, profilePath] of Object.entries(config.provisioningProfiles ?? {})) {
+    outputs.provisioningProfiles[environment] = pulumi.secret(fs.readFileSync(projectPath(profilePath)).toString("base64"));
+  }
+
+  if (config.appStoreConnectApiKeyPath) {
+    outputs.appStoreConnect = {
+      keyId: appStoreConnectKeyId(config)!,
+      issuerId: config.appStoreConnectIssuerId!,
+      privateKey: pulumi.secret(fs.readFileSync(projectPath(config.appStoreConnectApiKeyPath), "utf-8")),
+    };
+  }
+
+  return outputs;
+}
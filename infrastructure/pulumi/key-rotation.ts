@@ -0,0 +1,130 @@
+import { Stack } from '@pulumi/pulumi/automation';
+import type { FirebaseEnvironmentConfig } from './firebase';
+import {
+  DEFAULT_KEY_OVERLAP_DAYS,
+  KEY_ROTATION_STATE_CONFIG_KEY,
+  KeyRotationState,
+  nextKeyRotation,
+} from './iam';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type KeyRotationAction = 'track' | 'rotate' | 'expire-previous' | 'remove';
+
+export interface KeyRotationChange {
+  environment: string;
+  action: KeyRotationAction;
+  generation: number;
+  reason: string;
+}
+
+export interface KeyRotationPlan {
+  state: Record<string, KeyRotationState>;
+  changes: KeyRotationChange[];
+}
+
+/**
+ * Works out the key generations for this deploy. The program only creates the keys the
+ * state lists, so this is where rotation deadlines and overlap windows are enforced:
+ * - a key past `rotationDays` (or in `force`) is replaced by a new generation, and the old
+ *   one is kept until `overlapDays` have passed
+ * - an expired previous key is dropped, which deletes it
+ * - environments using Workload Identity Federation have no keys and no state
+ */
+export function planKeyRotation(
+  environments: FirebaseEnvironmentConfig[],
+  current: Record<string, KeyRotationState>,
+  now: Date,
+  force: string[] = []
+): KeyRotationPlan {
+  const state: Record<string, KeyRotationState> = {};
+  const changes: KeyRotationChange[] = [];
+
+  for (const env of environments) {
+    const name = env.environment;
+    const existing = current[name];
+
+    if (env.workloadIdentity.enabled) {
+      if (existing) {
+        changes.push({ environment: name, action: 'remove', generation: existing.generation, reason: 'keyless auth enabled' });
+      }
+      continue;
+    }
+
+    let next: KeyRotationState = existing
+      ? { ...existing }
+      : { generation: 0, createdAt: now.toISOString() };
+    if (!existing) {
+      changes.push({ environment: name, action: 'track', generation: 0, reason: 'key age tracked from now' });
+    }
+
+    const deadline = nextKeyRotation(next, env.keyRotation);
+    const due = deadline !== null && now.getTime() >= new Date(deadline).getTime();
+    if (force.includes(name) || due) {
+      const overlapDays = env.keyRotation.overlapDays ?? DEFAULT_KEY_OVERLAP_DAYS;
+      // Only one previous key is kept; one still in its overlap window is replaced
+      next = {
+        generation: Math.max(next.generation, next.previousGeneration ?? 0) + 1,
+        createdAt: now.toISOString(),
+        previousGeneration: next.generation,
+        previousExpiresAt: new Date(now.getTime() + overlapDays * DAY_MS).toISOString(),
+      };
+      changes.push({
+        environment: name,
+        action: 'rotate',
+        generation: next.generation,
+        reason: force.includes(name) ? 'forced' : `older than ${env.keyRotation.rotationDays} days`,
+      });
+    } else if (next.previousExpiresAt && now.getTime() >= new Date(next.previousExpiresAt).getTime()) {
+      changes.push({
+        environment: name,
+        action: 'expire-previous',
+        generation: next.previousGeneration!,
+        reason: 'overlap window over',
+      });
+      delete next.previousGeneration;
+      delete next.previousExpiresAt;
+    }
+
+    state[name] = next;
+  }
+
+  return { state, changes };
+}
+
+/**
+ * Reads the rotation state the CLI keeps in the stack config (a JSON string, keyed by
+ * `<project>:keyRotationState`).
+ */
+export async function readKeyRotationState(stack: Stack, project: string): Promise<Record<string, KeyRotationState>> {
+  const config = await stack.getAllConfig();
+  const value = config[`${project}:${KEY_ROTATION_STATE_CONFIG_KEY}`]?.value;
+  return value ? JSON.parse(value) : {};
+}
+
+export async function writeKeyRotationState(
+  stack: Stack,
+  project: string,
+  state: Record<string, KeyRotationState>
+): Promise<void> {
+  await stack.setConfig(`${project}:${KEY_ROTATION_STATE_CONFIG_KEY}`, { value: JSON.stringify(state) });
+}
+
+const ACTION_LABELS: Record<KeyRotationAction, string> = {
+  track: '🕒 tracking key age',
+  rotate: '🔄 rotating key',
+  'expire-previous': '🗑️  deleting previous key',
+  remove: '🗑️  deleting keys',
+};
+
+export function printKeyRotationPlan(changes: KeyRotationChange[]): void {
+  if (changes.length === 0) {
+    return;
+  }
+  console.log('\n🔑 Service Account Key Rotation:');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const change of changes) {
+    console.log(`  ${change.environment}: ${ACTION_LABELS[change.action]} (generation ${change.generation}, ${change.reason})`);
+  }
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
@@ -0,0 +1,798 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as crypto from "crypto";
+
+// Java keystores (PKCS12 or JKS) with one private key and its self-signed certificate,
+// built in memory with Node's crypto so that no JDK or temporary file is involved.
+
+export const KEYSTORE_TYPES = ["PKCS12", "JKS"];
+
+// EC key size to OpenSSL curve name and the matching signature hash
+const EC_CURVES: Record<number, { curve: string; hash: string; signatureOid: string }> = {
+  256: { curve: "prime256v1", hash: "sha256", signatureOid: "1.2.840.10045.4.3.2" },
+  384: { curve: "secp384r1", hash: "sha384", signatureOid: "1.2.840.10045.4.3.3" },
+  521: { curve: "secp521r1", hash: "sha512", signatureOid: "1.2.840.10045.4.3.4" },
+};
+
+export interface CertificateSubject {
+  commonName: string;
+  organizationalUnit: string;
+  organization: string;
+  locality: string;
+  state: string;
+  country: string;
+}
+
+export interface KeystoreSettings {
+  storeType: "PKCS12" | "JKS";
+  keyAlias: string;
+  keyAlgorithm: "RSA" | "EC";
+  keySize: number;
+  validity: number; // days
+  subject: CertificateSubject;
+  keystorePassword: string;
+  keyPassword: string;
+}
+
+export interface GeneratedKeystore {
+  keystoreBase64: string;
+  certificatePem: string;
+  /** As keytool prints them (AB:CD:...) */
+  sha1Fingerprint: string;
+  sha256Fingerprint: string;
+}
+
+// ============================================================================
+// DER encoding
+// ============================================================================
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+const sequence = (...contents: Buffer[]) => der(0x30, ...contents);
+// DER orders the elements of a SET by their encoding
+const set = (...contents: Buffer[]) => der(0x31, ...[...contents].sort(Buffer.compare));
+const explicit = (tagNumber: number, ...contents: Buffer[]) => der(0xa0 + tagNumber, ...contents);
+const octetString = (value: Buffer) => der(0x04, value);
+const bitString = (value: Buffer) => der(0x03, Buffer.from([0]), value);
+const derNull = () => der(0x05);
+const utf8String = (value: string) => der(0x0c, Buffer.from(value, "utf8"));
+const printableString = (value: string) => der(0x13, Buffer.from(value, "ascii"));
+const bmpString = (value: string) => der(0x1e, Buffer.from(value, "utf16le").swap16());
+
+function integer(value: number | Buffer): Buffer {
+  const hex = typeof value === "number" ? value.toString(16) : "";
+  let bytes = typeof value === "number" ? Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex") : value;
+  // Strip redundant leading zeros, then keep the value positive
+  while (bytes.length > 1 && bytes[0] === 0 && bytes[1] < 0x80) {
+    bytes = bytes.subarray(1);
+  }
+  if (bytes[0] >= 0x80) {
+    bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  }
+  return der(0x02, bytes);
+}
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes = [40 * first + second];
+  for (const arc of rest) {
+    const base128 = [arc & 0x7f];
+    for (let value = Math.floor(arc / 128); value > 0; value = Math.floor(value / 128)) {
+      base128.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...base128);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/** UTCTime until 2049, GeneralizedTime after, as RFC 5280 requires */
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, "").slice(0, 14) + "Z";
+  return date.getUTCFullYear() < 2050 ? der(0x17, Buffer.from(iso.slice(2))) : der(0x18, Buffer.from(iso));
+}
+
+// ============================================================================
+// DER decoding
+// ============================================================================
+
+interface DerNode {
+  tag: number;
+  contents: Buffer;
+}
+
+function readDer(buffer: Buffer): DerNode[] {
+  const nodes: DerNode[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const tag = buffer[offset];
+    let length = buffer[offset + 1];
+    let start = offset + 2;
+    if (length === 0x80) {
+      throw new Error("BER indefinite lengths aren't supported; re-export the keystore with keytool");
+    }
+    if (length > 0x80) {
+      const lengthBytes = length & 0x7f;
+      length = buffer.subarray(start, start + lengthBytes).reduce((value, byte) => value * 256 + byte, 0);
+      start += lengthBytes;
+    }
+    if (Number.isNaN(length) || start + length > buffer.length) {
+      throw new Error("Truncated DER data");
+    }
+    nodes.push({ tag, contents: buffer.subarray(start, start + length) });
+    offset = start + length;
+  }
+  return nodes;
+}
+
+/** The children of a constructed node, checking the node's tag */
+function children(node: DerNode | undefined, tag: number): DerNode[] {
+  if (!node || node.tag !== tag) {
+    throw new Error(`Unexpected DER structure (expected tag 0x${tag.toString(16)})`);
+  }
+  return readDer(node.contents);
+}
+
+function readOid(node: DerNode): string {
+  const [first, ...rest] = node.contents;
+  const arcs = [Math.floor(first / 40), first % 40];
+  let arc = 0;
+  for (const byte of rest) {
+    arc = arc * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) {
+      arcs.push(arc);
+      arc = 0;
+    }
+  }
+  return arcs.join(".");
+}
+
+function readInteger(node: DerNode): number {
+  return node.contents.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+// ============================================================================
+// Self-signed certificate
+// ============================================================================
+
+function name(subject: CertificateSubject): Buffer {
+  const attribute = (attributeOid: string, value: Buffer) => set(sequence(oid(attributeOid), value));
+  // Encoded from the least specific attribute, the reverse of CN=..., C=...
+  return sequence(
+    attribute("2.5.4.6", printableString(subject.country)),
+    attribute("2.5.4.8", utf8String(subject.state)),
+    attribute("2.5.4.7", utf8String(subject.locality)),
+    attribute("2.5.4.10", utf8String(subject.organization)),
+    attribute("2.5.4.11", utf8String(subject.organizationalUnit)),
+    attribute("2.5.4.3", utf8String(subject.commonName))
+  );
+}
+
+function selfSignedCertificate(
+  settings: KeystoreSettings,
+  publicKey: crypto.KeyObject,
+  privateKey: crypto.KeyObject
+): Buffer {
+  const { hash, signatureOid } =
+    settings.keyAlgorithm === "EC"
+      ? EC_CURVES[settings.keySize]
+      : { hash: "sha256", signatureOid: "1.2.840.113549.1.1.11" };
+  const signatureAlgorithm = settings.keyAlgorithm === "EC"
+    ? sequence(oid(signatureOid))
+    : sequence(oid(signatureOid), derNull());
+
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore.getTime() + settings.validity * 24 * 60 * 60 * 1000);
+  const serialNumber = crypto.randomBytes(8);
+  serialNumber[0] &= 0x7f;
+  const spki = publicKey.export({ type: "spki", format: "der" });
+  const issuerAndSubject = name(settings.subject);
+
+  const tbsCertificate = sequence(
+    explicit(0, integer(2)), // v3
+    integer(serialNumber),
+    signatureAlgorithm,
+    issuerAndSubject,
+    sequence(time(notBefore), time(notAfter)),
+    issuerAndSubject,
+    spki,
+    explicit(
+      3,
+      sequence(
+        // Subject key identifier
+        sequence(oid("2.5.29.14"), octetString(octetString(crypto.createHash("sha1").update(spki).digest())))
+      )
+    )
+  );
+
+  return sequence(tbsCertificate, signatureAlgorithm, bitString(crypto.sign(hash, tbsCertificate, privateKey)));
+}
+
+// ============================================================================
+// PKCS12
+// ============================================================================
+
+const PKCS12_MAC_ITERATIONS = 10000;
+
+/**
+ * Key derivation of RFC 7292 appendix B: id 1 derives cipher keys, 2 IVs and 3 MAC keys
+ * (the only use left in keystores written today)
+ */
+function pkcs12Kdf(
+  hash: string,
+  password: string,
+  salt: Buffer,
+  id: number,
+  iterations: number,
+  length: number
+): Buffer {
+  const u = crypto.createHash(hash).digest().length;
+  const v = u > 32 ? 128 : 64; // hash block size
+  const passwordBytes = Buffer.concat([Buffer.from(password, "utf16le").swap16(), Buffer.alloc(2)]);
+  const repeat = (bytes: Buffer) =>
+    Buffer.alloc(bytes.length === 0 ? 0 : v * Math.ceil(bytes.length / v), bytes);
+
+  const d = Buffer.alloc(v, id);
+  const i = Buffer.concat([repeat(salt), repeat(passwordBytes)]);
+  const result: Buffer[] = [];
+
+  for (let produced = 0; produced < length; produced += u) {
+    let a = crypto.createHash(hash).update(d).update(i).digest();
+    for (let round = 1; round < iterations; round++) {
+      a = crypto.createHash(hash).update(a).digest();
+    }
+    result.push(a);
+
+    // I_j = (I_j + B + 1) mod 2^(v*8) for every v-byte block of I
+    const b = Buffer.alloc(v, a);
+    for (let offset = 0; offset < i.length; offset += v) {
+      let carry = 1;
+      for (let k = v - 1; k >= 0; k--) {
+        const sum = i[offset + k] + b[k] + carry;
+        i[offset + k] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+
+  return Buffer.concat(result).subarray(0, length);
+}
+
+function pkcs12(settings: KeystoreSettings, certificate: Buffer, privateKey: crypto.KeyObject): Buffer {
+  const data = (contents: Buffer) => sequence(oid("1.2.840.113549.1.7.1"), explicit(0, octetString(contents)));
+  // Java reads the alias from friendlyName and pairs key and certificate by localKeyId
+  const bagAttributes = set(
+    sequence(oid("1.2.840.113549.1.9.20"), set(bmpString(settings.keyAlias))),
+    sequence(oid("1.2.840.113549.1.9.21"), set(octetString(crypto.createHash("sha1").update(certificate).digest())))
+  );
+
+  const certificateBag = sequence(
+    oid("1.2.840.113549.1.12.10.1.3"),
+    explicit(0, sequence(oid("1.2.840.113549.1.9.22.1"), explicit(0, octetString(certificate)))),
+    bagAttributes
+  );
+  // PBES2 with PBKDF2 and AES-256-CBC
+  const encryptedKey = privateKey.export({
+    type: "pkcs8",
+    format: "der",
+    cipher: "aes-256-cbc",
+    passphrase: settings.keyPassword,
+  });
+  const keyBag = sequence(oid("1.2.840.113549.1.12.10.1.2"), explicit(0, encryptedKey), bagAttributes);
+
+  // The certificate stays unencrypted, like keytool does with certProtectionAlgorithm NONE
+  const authenticatedSafe = sequence(data(sequence(certificateBag)), data(sequence(keyBag)));
+
+  const macSalt = crypto.randomBytes(16);
+  const macKey = pkcs12Kdf("sha256", settings.keystorePassword, macSalt, 3, PKCS12_MAC_ITERATIONS, 32);
+  const mac = crypto.createHmac("sha256", macKey).update(authenticatedSafe).digest();
+
+  return sequence(
+    integer(3),
+    data(authenticatedSafe),
+    sequence(
+      sequence(sequence(oid("2.16.840.1.101.3.4.2.1"), derNull()), octetString(mac)),
+      octetString(macSalt),
+      integer(PKCS12_MAC_ITERATIONS)
+    )
+  );
+}
+
+// RC2 (RFC 2268), which Node no longer ships but keytool used to encrypt PKCS12
+// certificates with until 2021. Only decryption is needed.
+const RC2_PITABLE = Buffer.from(
+  [
+    "d978f9c419ddb5ed28e9fd794aa0d89d",
+    "c67e37832b76538e624c6488448bfba2",
+    "179a59f587b34f1361456d8d09817d32",
+    "bd8f40eb86b77b0bf09521225c6b4e82",
+    "54d66593ce60b21c7356c014a78cf1dc",
+    "1275ca1f3bbee4d1423dd430a33cb626",
+    "6fbf0eda4669075727f21d9bbc944303",
+    "f811c7f690ef3ee706c3d52fc8661ed7",
+    "08e8eade8052eef784aa72ac354d6a2a",
+    "961ad2715a1549744b9fd05e0418a4ec",
+    "c2e0416e0f51cbcc2491af50a1f47039",
+    "997c3a8523b8b47afc02365b25559731",
+    "2d5dfa98e38a92ae05df2910676cbac9",
+    "d300e6cfe19ea82c6316013f58e289a9",
+    "0d38341bab33ffb0bb480c5fb9b1cd2e",
+    "c5f3db47e5a59c770aa62068fe7fc1ad",
+  ].join(""),
+  "hex"
+);
+
+function rc2CbcDecrypt(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  // Key expansion with the effective key length equal to the key length
+  const l = Buffer.alloc(128);
+  key.copy(l);
+  for (let i = key.length; i < 128; i++) {
+    l[i] = RC2_PITABLE[(l[i - 1] + l[i - key.length]) & 0xff];
+  }
+  l[128 - key.length] = RC2_PITABLE[l[128 - key.length]];
+  for (let i = 127 - key.length; i >= 0; i--) {
+    l[i] = RC2_PITABLE[l[i + 1] ^ l[i + key.length]];
+  }
+  const k = Array.from({ length: 64 }, (_, i) => l[2 * i] | (l[2 * i + 1] << 8));
+
+  const shifts = [1, 2, 3, 5];
+  const output = Buffer.alloc(data.length);
+  let previous = iv;
+  for (let offset = 0; offset < data.length; offset += 8) {
+    const block = data.subarray(offset, offset + 8);
+    const r = [0, 1, 2, 3].map((i) => block.readUInt16LE(2 * i));
+    let j = 63;
+    const unmix = () => {
+      for (let i = 3; i >= 0; i--) {
+        r[i] = ((r[i] >>> shifts[i]) | (r[i] << (16 - shifts[i]))) & 0xffff;
+        r[i] = (r[i] - k[j--] - (r[(i + 3) % 4] & r[(i + 2) % 4]) - (~r[(i + 3) % 4] & r[(i + 1) % 4])) & 0xffff;
+      }
+    };
+    const unmash = () => {
+      for (let i = 3; i >= 0; i--) {
+        r[i] = (r[i] - k[r[(i + 3) % 4] & 63]) & 0xffff;
+      }
+    };
+    for (const rounds of [5, 0, 6, 0, 5]) {
+      if (rounds === 0) {
+        unmash();
+      }
+      for (let round = 0; round < rounds; round++) {
+        unmix();
+      }
+    }
+    r.forEach((word, i) => output.writeUInt16LE(word ^ previous.readUInt16LE(2 * i), offset + 2 * i));
+    previous = block;
+  }
+
+  const padding = output[output.length - 1];
+  if (padding < 1 || padding > 8) {
+    throw new Error("Wrong keystore password");
+  }
+  return output.subarray(0, output.length - padding);
+}
+
+// PKCS12 password-based encryption: key length and cipher per algorithm
+const PKCS12_PBE_ALGORITHMS: Record<string, { keyLength: number; cipher: string }> = {
+  "1.2.840.113549.1.12.1.3": { keyLength: 24, cipher: "des-ede3-cbc" },
+  "1.2.840.113549.1.12.1.5": { keyLength: 16, cipher: "rc2" },
+  "1.2.840.113549.1.12.1.6": { keyLength: 5, cipher: "rc2" },
+};
+const PBES2_CIPHERS: Record<string, string> = {
+  "2.16.840.1.101.3.4.1.2": "aes-128-cbc",
+  "2.16.840.1.101.3.4.1.22": "aes-192-cbc",
+  "2.16.840.1.101.3.4.1.42": "aes-256-cbc",
+  "1.2.840.113549.3.7": "des-ede3-cbc",
+};
+const HMAC_HASHES: Record<string, string> = {
+  "1.2.840.113549.2.7": "sha1",
+  "1.2.840.113549.2.9": "sha256",
+  "1.2.840.113549.2.10": "sha384",
+  "1.2.840.113549.2.11": "sha512",
+};
+const DIGEST_HASHES: Record<string, string> = {
+  "1.3.14.3.2.26": "sha1",
+  "2.16.840.1.101.3.4.2.1": "sha256",
+  "2.16.840.1.101.3.4.2.2": "sha384",
+  "2.16.840.1.101.3.4.2.3": "sha512",
+};
+
+function pkcs12Decrypt(algorithm: DerNode, data: Buffer, password: string): Buffer {
+  const [algorithmOid, parameters] = children(algorithm, 0x30);
+  const algorithmId = readOid(algorithmOid);
+
+  const pbe = PKCS12_PBE_ALGORITHMS[algorithmId];
+  if (pbe) {
+    const [salt, iterations] = children(parameters, 0x30);
+    const derive = (id: number, length: number) =>
+      pkcs12Kdf("sha1", password, salt.contents, id, readInteger(iterations), length);
+    const key = derive(1, pbe.keyLength);
+    const iv = derive(2, 8);
+    if (pbe.cipher === "rc2") {
+      return rc2CbcDecrypt(key, iv, data);
+    }
+    const decipher = crypto.createDecipheriv(pbe.cipher, key, iv);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  if (algorithmId === "1.2.840.113549.1.5.13") {
+    const [keyDerivation, encryption] = children(parameters, 0x30);
+    const [, pbkdf2Parameters] = children(keyDerivation, 0x30);
+    const [salt, iterations, ...optional] = children(pbkdf2Parameters, 0x30);
+    const prf = optional.find((node) => node.tag === 0x30);
+    const hash = prf ? HMAC_HASHES[readOid(children(prf, 0x30)[0])] : "sha1";
+    const [cipherOid, iv] = children(encryption, 0x30);
+    const cipher = PBES2_CIPHERS[readOid(cipherOid)];
+    if (!hash || !cipher) {
+      throw new Error("Unsupported PBES2 algorithm in keystore");
+    }
+    const keyLength = crypto.getCipherInfo(cipher)!.keyLength;
+    const key = crypto.pbkdf2Sync(Buffer.from(password, "utf8"), salt.contents, readInteger(iterations), keyLength, hash);
+    const decipher = crypto.createDecipheriv(cipher, key, iv.contents);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  throw new Error(`Unsupported keystore encryption ${algorithmId}`);
+}
+
+interface Pkcs12Bag {
+  type: string;
+  value: DerNode;
+  friendlyName?: string;
+  localKeyId?: string;
+}
+
+function pkcs12Bags(safeContents: Buffer): Pkcs12Bag[] {
+  return children(readDer(safeContents)[0], 0x30).map((bag) => {
+    const [type, value, attributes] = children(bag, 0x30);
+    const result: Pkcs12Bag = { type: readOid(type), value: children(value, 0xa0)[0] };
+    for (const attribute of attributes ? children(attributes, 0x31) : []) {
+      const [attributeOid, values] = children(attribute, 0x30);
+      const [first] = children(values, 0x31);
+      if (readOid(attributeOid) === "1.2.840.113549.1.9.20") {
+        result.friendlyName = Buffer.from(first.contents).swap16().toString("utf16le");
+      } else if (readOid(attributeOid) === "1.2.840.113549.1.9.21") {
+        result.localKeyId = first.contents.toString("hex");
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * The certificate of a PKCS12 key entry, after checking the integrity MAC. The entry is
+ * found by alias (friendlyName), or by localKeyId in a keystore without aliases that
+ * holds a single key.
+ */
+function readPkcs12Certificate(keystore: Buffer, keyAlias: string, password: string): Buffer {
+  const [, authSafe, macData] = children(readDer(keystore)[0], 0x30);
+  const [, authSafeContent] = children(authSafe, 0x30);
+  const authenticatedSafe = children(authSafeContent, 0xa0)[0].contents;
+
+  if (macData) {
+    const [digestInfo, macSalt, iterations] = children(macData, 0x30);
+    const [digestAlgorithm, digest] = children(digestInfo, 0x30);
+    const hash = DIGEST_HASHES[readOid(children(digestAlgorithm, 0x30)[0])];
+    if (!hash) {
+      throw new Error("Unsupported keystore MAC algorithm");
+    }
+    const macKey = pkcs12Kdf(hash, password, macSalt.contents, 3, iterations ? readInteger(iterations) : 1, digest.contents.length);
+    const mac = crypto.createHmac(hash, macKey).update(authenticatedSafe).digest();
+    if (!mac.equals(digest.contents)) {
+      throw new Error("Wrong keystore password (PKCS12 integrity check failed)");
+    }
+  }
+
+  const bags = children(readDer(authenticatedSafe)[0], 0x30).flatMap((contentInfo) => {
+    const [contentType, content] = children(contentInfo, 0x30);
+    const [inner] = children(content, 0xa0);
+    if (readOid(contentType) === "1.2.840.113549.1.7.1") {
+      return pkcs12Bags(inner.contents);
+    }
+    // encryptedData: version, then the content type, algorithm and [0] IMPLICIT ciphertext
+    const [, encryptedContentInfo] = children(inner, 0x30);
+    const [, algorithm, encrypted] = children(encryptedContentInfo, 0x30);
+    return pkcs12Bags(pkcs12Decrypt(algorithm, encrypted.contents, password));
+  });
+
+  const keyBags = bags.filter((bag) => bag.type === "1.2.840.113549.1.12.10.1.2" || bag.type === "1.2.840.113549.1.12.10.1.1");
+  const certificateBags = bags.filter((bag) => bag.type === "1.2.840.113549.1.12.10.1.3");
+  const named = certificateBags.some((bag) => bag.friendlyName !== undefined);
+  const entry = named
+    ? certificateBags.find((bag) => bag.friendlyName?.toLowerCase() === keyAlias.toLowerCase())
+    : keyBags.length === 1 ? certificateBags.find((bag) => bag.localKeyId === keyBags[0].localKeyId) : undefined;
+  if (!entry) {
+    const aliases = certificateBags.map((bag) => bag.friendlyName).filter(Boolean);
+    throw new Error(`No key "${keyAlias}" in the keystore${aliases.length ? ` (aliases: ${aliases.join(", ")})` : ""}`);
+  }
+
+  const [, certificate] = children(entry.value, 0x30);
+  return children(certificate, 0xa0)[0].contents;
+}
+
+// ============================================================================
+// JKS
+// ============================================================================
+
+function javaUtf(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+function uint32(value: number): Buffer {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(value);
+  return bytes;
+}
+
+/**
+ * Sun's proprietary key protection (sun.security.provider.KeyProtector): the key is
+ * XORed with a SHA-1 keystream of the password and a random salt.
+ */
+function protectJksKey(plainKey: Buffer, password: string): Buffer {
+  const passwordBytes = Buffer.from(password, "utf16le").swap16();
+  const salt = crypto.randomBytes(20);
+  const keystream: Buffer[] = [];
+  let digest = salt;
+  while (keystream.length * 20 < plainKey.length) {
+    digest = crypto.createHash("sha1").update(passwordBytes).update(digest).digest();
+    keystream.push(digest);
+  }
+  const xorKey = Buffer.concat(keystream);
+  const encrypted = Buffer.from(plainKey.map((byte, index) => byte ^ xorKey[index]));
+  const check = crypto.createHash("sha1").update(passwordBytes).update(plainKey).digest();
+
+  return sequence(
+    sequence(oid("1.3.6.1.4.1.42.2.17.1.1"), derNull()),
+    octetString(Buffer.concat([salt, encrypted, check]))
+  );
+}
+
+/** The reverse of protectJksKey; the check digest doubles as the key password check */
+function unprotectJksKey(protectedKey: Buffer, password: string): Buffer {
+  const [, data] = children(readDer(protectedKey)[0], 0x30);
+  const passwordBytes = Buffer.from(password, "utf16le").swap16();
+  const salt = data.contents.subarray(0, 20);
+  const encrypted = data.contents.subarray(20, data.contents.length - 20);
+  const check = data.contents.subarray(data.contents.length - 20);
+  const keystream: Buffer[] = [];
+  let digest = salt;
+  while (keystream.length * 20 < encrypted.length) {
+    digest = crypto.createHash("sha1").update(passwordBytes).update(digest).digest();
+    keystream.push(digest);
+  }
+  const xorKey = Buffer.concat(keystream);
+  const plainKey = Buffer.from(encrypted.map((byte, index) => byte ^ xorKey[index]));
+  if (!crypto.createHash("sha1").update(passwordBytes).update(plainKey).digest().equals(check)) {
+    throw new Error("Wrong key password");
+  }
+  return plainKey;
+}
+
+function jks(settings: KeystoreSettings, certificate: Buffer, privateKey: crypto.KeyObject): Buffer {
+  const protectedKey = protectJksKey(privateKey.export({ type: "pkcs8", format: "der" }), settings.keyPassword);
+  const created = Buffer.alloc(8);
+  created.writeBigUInt64BE(BigInt(Date.now()));
+
+  const contents = Buffer.concat([
+    uint32(0xfeedfeed),
+    uint32(2), // version
+    uint32(1), // entries
+    uint32(1), // private key entry
+    javaUtf(settings.keyAlias.toLowerCase()),
+    created,
+    uint32(protectedKey.length),
+    protectedKey,
+    uint32(1), // certificate chain length
+    javaUtf("X.509"),
+    uint32(certificate.length),
+    certificate,
+  ]);
+  const integrity = crypto
+    .createHash("sha1")
+    .update(Buffer.from(settings.keystorePassword, "utf16le").swap16())
+    .update("Mighty Aphrodite", "utf8")
+    .update(contents)
+    .digest();
+
+  return Buffer.concat([contents, integrity]);
+}
+
+interface JksKeyEntry {
+  alias: string;
+  protectedKey: Buffer;
+  certificates: Buffer[];
+}
+
+/** The key entries of a JKS keystore, after checking its integrity digest */
+function readJks(keystore: Buffer, password: string): JksKeyEntry[] {
+  const contents = keystore.subarray(0, keystore.length - 20);
+  const integrity = crypto
+    .createHash("sha1")
+    .update(Buffer.from(password, "utf16le").swap16())
+    .update("Mighty Aphrodite", "utf8")
+    .update(contents)
+    .digest();
+  if (!integrity.equals(keystore.subarray(keystore.length - 20))) {
+    throw new Error("Wrong keystore password (JKS integrity check failed)");
+  }
+
+  let offset = 4;
+  const next = (length: number) => contents.subarray((offset += length) - length, offset);
+  const readUint32 = () => next(4).readUInt32BE();
+  const readUtf = () => next(next(2).readUInt16BE()).toString("utf8");
+
+  const version = readUint32();
+  const entries: JksKeyEntry[] = [];
+  for (let count = readUint32(); count > 0; count--) {
+    const tag = readUint32();
+    const alias = readUtf();
+    next(8); // creation date
+    const protectedKey = tag === 1 ? next(readUint32()) : Buffer.alloc(0);
+    const certificateCount = tag === 1 ? readUint32() : 1;
+    const certificates: Buffer[] = [];
+    for (let index = 0; index < certificateCount; index++) {
+      if (version === 2) {
+        readUtf(); // certificate type
+      }
+      certificates.push(next(readUint32()));
+    }
+    if (tag === 1) {
+      entries.push({ alias, protectedKey, certificates });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Reads the certificate of a key entry out of a PKCS12 or JKS keystore, checking the
+ * keystore password on the way.
+ */
+export function readKeystoreCertificate(keystore: Buffer, keyAlias: string, keystorePassword: string): crypto.X509Certificate {
+  const magic = keystore.readUInt32BE(0);
+  if (magic === 0xcececece) {
+    throw new Error("JCEKS keystores aren't supported; convert it with keytool -importkeystore to PKCS12");
+  }
+  if (magic !== 0xfeedfeed) {
+    return new crypto.X509Certificate(readPkcs12Certificate(keystore, keyAlias, keystorePassword));
+  }
+
+  const entry = readJks(keystore, keystorePassword).find((candidate) => candidate.alias === keyAlias.toLowerCase());
+  if (!entry) {
+    throw new Error(`No key "${keyAlias}" in the keystore`);
+  }
+  return new crypto.X509Certificate(entry.certificates[0]);
+}
+
+// ============================================================================
+// Keystore
+// ============================================================================
+
+/**
+ * Reads a freshly built keystore back the way Android's build tools will, so a broken
+ * encoding fails the deploy instead of the first release build.
+ */
+function checkRoundTrip(settings: KeystoreSettings, keystore: Buffer, certificate: Buffer, privateKey: crypto.KeyObject): void {
+  const readBack = readKeystoreCertificate(keystore, settings.keyAlias, settings.keystorePassword);
+  if (!readBack.raw.equals(certificate)) {
+    throw new Error("Generated keystore doesn't read back: certificate differs");
+  }
+  if (settings.storeType === "JKS") {
+    const [entry] = readJks(keystore, settings.keystorePassword);
+    const plainKey = unprotectJksKey(entry.protectedKey, settings.keyPassword);
+    if (!plainKey.equals(privateKey.export({ type: "pkcs8", format: "der" }))) {
+      throw new Error("Generated keystore doesn't read back: private key differs");
+    }
+  }
+}
+
+export function createKeystore(settings: KeystoreSettings): GeneratedKeystore {
+  const { publicKey, privateKey } =
+    settings.keyAlgorithm === "EC"
+      ? crypto.generateKeyPairSync("ec", { namedCurve: EC_CURVES[settings.keySize].curve })
+      : crypto.generateKeyPairSync("rsa", { modulusLength: settings.keySize });
+
+  const certificate = selfSignedCertificate(settings, publicKey, privateKey);
+  const keystore = settings.storeType === "JKS"
+    ? jks(settings, certificate, privateKey)
+    : pkcs12(settings, certificate, privateKey);
+  checkRoundTrip(settings, keystore, certificate, privateKey);
+
+  return keystoreOutputs(keystore, new crypto.X509Certificate(certificate));
+}
+
+function keystoreOutputs(keystore: Buffer, certificate: crypto.X509Certificate): GeneratedKeystore {
+  return {
+    keystoreBase64: keystore.toString("base64"),
+    certificatePem: certificate.toString(),
+    sha1Fingerprint: certificate.fingerprint,
+    sha256Fingerprint: certificate.fingerprint256,
+  };
+}
+
+/**
+ * Takes over a keystore made before this resource existed (by keytool) as it is, so
+ * upgrading doesn't change the key. The passwords and alias are those it was made with.
+ */
+export function adoptKeystore(keystoreBase64: string, settings: KeystoreSettings): GeneratedKeystore {
+  const keystore = Buffer.from(keystoreBase64, "base64");
+  return keystoreOutputs(keystore, readKeystoreCertificate(keystore, settings.keyAlias, settings.keystorePassword));
+}
+
+// Any change to these replaces the keystore; nothing is ever updated in place
+const KEYSTORE_SETTINGS: (keyof KeystoreSettings)[] = [
+  "storeType",
+  "keyAlias",
+  "keyAlgorithm",
+  "keySize",
+  "validity",
+  "subject",
+  "keystorePassword",
+  "keyPassword",
+];
+
+interface KeystoreInputs extends KeystoreSettings {
+  /** Keystore to adopt instead of generating one; only read on create */
+  previousKeystoreBase64?: string;
+}
+
+const keystoreProvider: pulumi.dynamic.ResourceProvider = {
+  async create({ previousKeystoreBase64, ...settings }: KeystoreInputs) {
+    const keystore = previousKeystoreBase64 ? adoptKeystore(previousKeystoreBase64, settings) : createKeystore(settings);
+    return { id: keystore.sha256Fingerprint.replace(/:/g, "").toLowerCase(), outs: { ...settings, ...keystore } };
+  },
+
+  async diff(_id: string, olds: KeystoreSettings, news: KeystoreSettings) {
+    const replaces = KEYSTORE_SETTINGS.filter((key) => JSON.stringify(olds[key]) !== JSON.stringify(news[key]));
+    return { changes: replaces.length > 0, replaces, deleteBeforeReplace: false };
+  },
+};
+
+export type KeystoreArgs = {
+  [K in keyof KeystoreSettings]: pulumi.Input<KeystoreSettings[K]>;
+} & {
+  previousKeystoreBase64?: pulumi.Input<string | undefined>;
+};
+
+/**
+ * A keystore generated (or adopted) once and kept in the (encrypted) state. Deploys
+ * leave it alone until one of its settings changes, which replaces the key.
+ */
+export class Keystore extends pulumi.dynamic.Resource {
+  public readonly keystoreBase64!: pulumi.Output<string>;
+  public readonly certificatePem!: pulumi.Output<string>;
+  public readonly sha1Fingerprint!: pulumi.Output<string>;
+  public readonly sha256Fingerprint!: pulumi.Output<string>;
+
+  constructor(name: string, args: KeystoreArgs, opts?: pulumi.CustomResourceOptions) {
+    super(
+      keystoreProvider,
+      name,
+      {
+        ...args,
+        keystoreBase64: undefined,
+        certificatePem: undefined,
+        sha1Fingerprint: undefined,
+        sha256Fingerprint: undefined,
+      },
+      {
+        ...opts,
+        additionalSecretOutputs: ["keystoreBase64", "keystorePassword", "keyPassword"],
+      }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import { format } from 'util';
+import { EngineEvent, OutputMap } from '@pulumi/pulumi/automation';
+import { ChangeGroupingOptions, environmentForResource, resourceNameFromUrn } from './diff';
+
+/**
+ * Machine-readable output (`--output json`).
+ *
+ * stdout carries newline-delimited JSON only: engine and command events while the
+ * command runs, then exactly one `result` object when the process exits. The usual
+ * human-readable output is moved to stderr so CI logs stay readable.
+ *
+ * Bump RESULT_SCHEMA_VERSION on any breaking change to the event or result shapes.
+ */
+
+export type OutputFormat = 'text' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+export const RESULT_SCHEMA_VERSION = 1;
+
+// Exit code of `status` when drift is found, distinct from 1 for errors. The command
+// itself worked, so the result still reports success
+export const EXIT_DRIFT_DETECTED = 2;
+
+export type EnginePhase = 'preview' | 'update' | 'refresh' | 'destroy';
+
+export interface CliResult {
+  type: 'result';
+  schemaVersion: number;
+  command: string;
+  stack: string | null;
+  /** The command ran to completion: exit code 0, or EXIT_DRIFT_DETECTED */
+  success: boolean;
+  exitCode: number;
+  error: string | null;
+  data: Record<string, unknown>;
+}
+
+interface JsonOutputState {
+  command: string;
+  stack: string | null;
+  data: Record<string, unknown>;
+  errors: string[];
+}
+
+let state: JsonOutputState | undefined;
+
+export function isJsonOutput(): boolean {
+  return state !== undefined;
+}
+
+function writeLine(value: unknown): void {
+  // Synchronous so the final result is not lost when the process exits
+  fs.writeSync(1, `${JSON.stringify(value)}\n`);
+}
+
+/**
+ * Switches the process to JSON output for the given command. console.log and
+ * console.error both go to stderr; error messages are also collected for the result.
+ */
+export function enableJsonOutput(command: string): void {
+  const current: JsonOutputState = { command, stack: null, data: {}, errors: [] };
+  state = current;
+
+  const writeStderr = (...args: unknown[]) => {
+    process.stderr.write(`${format(...args)}\n`);
+  };
+
+  console.log = writeStderr;
+  console.info = writeStderr;
+  console.warn = writeStderr;
+  console.error = (...args: unknown[]) => {
+    current.errors.push(format(...args));
+    writeStderr(...args);
+  };
+
+  process.on('exit', (code) => {
+    const result: CliResult = {
+      type: 'result',
+      schemaVersion: RESULT_SCHEMA_VERSION,
+      command: current.command,
+      stack: current.stack,
+      success: code === 0 || code === EXIT_DRIFT_DETECTED,
+      exitCode: code,
+      error: current.errors.length > 0 ? current.errors.join('\n') : null,
+      data: current.data,
+    };
+    writeLine(result);
+  });
+}
+
+/**
+ * Emits a command event (no-op in text mode).
+ */
+export function emitEvent(type: string, payload: Record<string, unknown> = {}): void {
+  if (!state) {
+    return;
+  }
+  writeLine({ type, timestamp: new Date().toISOString(), ...payload });
+}
+
+export function setResultStack(stackName: string): void {
+  if (state) {
+    state.stack = stackName;
+  }
+}
+
+/**
+ * Merges fields into the `data` of the final result (no-op in text mode).
+ */
+export function setResultData(data: Record<string, unknown>): void {
+  if (state) {
+    Object.assign(state.data, data);
+  }
+}
+
+/**
+ * Replaces secret outputs with "[secret]".
+ */
+export function maskOutputs(outputs: OutputMap): Record<string, unknown> {
+  const masked: Record<string, unknown> = {};
+  for (const [key, output] of Object.entries(outputs)) {
+    masked[key] = output.secret ? '[secret]' : output.value;
+  }
+  return masked;
+}
+
+/**
+ * Handler for the engine's text output: stdout in text mode, stderr in JSON mode.
+ */
+export function engineOutput(): (out: string) => void {
+  return state ? (msg) => process.stderr.write(msg) : (msg) => process.stdout.write(msg);
+}
+
+/**
+ * Wraps an engine event handler so that, in JSON mode, engine events are also emitted as
+ * `resource-pre`, `resource-post`, `resource-failed`, `diagnostic` and `summary` events.
+ */
+export function engineEventHandler(
+  phase: EnginePhase,
+  grouping: ChangeGroupingOptions,
+  onEvent?: (event: EngineEvent) => void
+): ((event: EngineEvent) => void) | undefined {
+  if (!state) {
+    return onEvent;
+  }
+
+  return (event) => {
+    onEvent?.(event);
+    emitEngineEvent(phase, event, grouping);
+  };
+}
+
+function emitEngineEvent(phase: EnginePhase, event: EngineEvent, grouping: ChangeGroupingOptions): void {
+  const step = (eventType: string, metadata: NonNullable<EngineEvent['resourcePreEvent']>['metadata']) => {
+    const name = resourceNameFromUrn(metadata.urn);
+    emitEvent(eventType, {
+      phase,
+      op: metadata.op,
+      urn: metadata.urn,
+      resourceType: metadata.type,
+      name,
+      environment: environmentForResource(name, grouping),
+      diffs: metadata.diffs ?? [],
+    });
+  };
+
+  if (event.resourcePreEvent) {
+    step('resource-pre', event.resourcePreEvent.metadata);
+  } else if (event.resOutputsEvent) {
+    step('resource-post', event.resOutputsEvent.metadata);
+  } else if (event.resOpFailedEvent) {
+    step('resource-failed', event.resOpFailedEvent.metadata);
+  } else if (event.diagnosticEvent) {
+    if (event.diagnosticEvent.ephemeral) {
+      return;
+    }
+    emitEvent('diagnostic', {
+      phase,
+      severity: event.diagnosticEvent.severity,
+      urn: event.diagnosticEvent.urn ?? null,
+      // Drop the engine's <{%reset%}>-style color markup
+      message: event.diagnosticEvent.message.replace(/<\{%[^%]*%\}>/g, '').trim(),
+    });
+  } else if (event.summaryEvent) {
+    emitEvent('summary', {
+      phase,
+      resourceChanges: event.summaryEvent.resourceChanges,
+      durationSeconds: event.summaryEvent.durationSeconds,
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import * as path from "path";
+
+// ============================================================================
+// Project paths
+// ============================================================================
+
+/**
+ * The Pulumi project directory (infrastructure/pulumi), which is also the workspace
+ * workDir the CLI runs the program in.
+ */
+export const PROJECT_DIR = __dirname;
+
+/**
+ * Resolves a path from the configuration (rules, indexes, keystores, certificates, the
+ * secrets file) against the project directory, whatever the current directory is.
+ */
+export function projectPath(relativePath: string): string {
+  return path.resolve(PROJECT_DIR, relativePath);
+}
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import type { FirebaseEnvironmentConfig } from './firebase';
+import { projectPath } from './paths';
+
+// Project ID prefix the emulators treat as offline-only, so tests never reach a real project
+const EMULATOR_PROJECT_ID = 'demo-rules-test';
+
+const FIRESTORE_EMULATOR_PORT = 8080;
+const STORAGE_EMULATOR_PORT = 9199;
+
+/**
+ * One distinct combination of rules files. Environments sharing the same files are tested
+ * once.
+ */
+export interface RulesTestTarget {
+  environments: string[];
+  firestoreRulesPath?: string;
+  storageRulesPath?: string;
+}
+
+export interface RulesTestResult {
+  environments: string[];
+  passed: boolean;
+  exitCode: number;
+}
+
+export function rulesTestTargets(environments: FirebaseEnvironmentConfig[]): RulesTestTarget[] {
+  const targets = new Map<string, RulesTestTarget>();
+
+  for (const env of environments) {
+    const firestoreRulesPath = env.enableFirestore ? projectPath(env.firestoreRulesPath) : undefined;
+    const storageRulesPath = env.enableStorage ? projectPath(env.storageRulesPath) : undefined;
+    if (!firestoreRulesPath && !storageRulesPath) {
+      continue;
+    }
+
+    const key = `${firestoreRulesPath ?? ''}|${storageRulesPath ?? ''}`;
+    const target = targets.get(key) ?? { environments: [], firestoreRulesPath, storageRulesPath };
+    target.environments.push(env.environment);
+    targets.set(key, target);
+  }
+
+  return [...targets.values()];
+}
+
+/**
+ * Writes a throwaway firebase.json pointing the emulators at the target's rules files.
+ */
+function writeEmulatorConfig(dir: string, target: RulesTestTarget): string {
+  const config: Record<string, unknown> = {
+    emulators: {
+      ui: { enabled: false },
+      ...(target.firestoreRulesPath ? { firestore: { port: FIRESTORE_EMULATOR_PORT } } : {}),
+      ...(target.storageRulesPath ? { storage: { port: STORAGE_EMULATOR_PORT } } : {}),
+    },
+  };
+  if (target.firestoreRulesPath) {
+    config.firestore = { rules: target.firestoreRulesPath };
+  }
+  if (target.storageRulesPath) {
+    config.storage = { rules: target.storageRulesPath };
+  }
+
+  const configFile = path.join(dir, 'firebase.json');
+  fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+  return configFile;
+}
+
+/**
+ * Starts the Firestore/Storage emulators with the target's rules loaded and runs the test
+ * command against them (`firebase emulators:exec`). The command sees the rules file paths
+ * in FIRESTORE_RULES_PATH / STORAGE_RULES_PATH, next to the emulator host variables the
+ * Firebase CLI sets. Requires firebase-tools and a Java runtime on the PATH.
+ */
+export async function runRulesTests(target: RulesTestTarget, testCommand: string): Promise<RulesTestResult> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-test-'));
+  const emulators = [target.firestoreRulesPath && 'firestore', target.storageRulesPath && 'storage'].filter(Boolean);
+
+  try {
+    const configFile = writeEmulatorConfig(dir, target);
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      const child = spawn(
+        'firebase',
+        [
+          'emulators:exec',
+          '--project', EMULATOR_PROJECT_ID,
+          '--config', configFile,
+          '--only', emulators.join(','),
+          testCommand,
+        ],
+        {
+          // Test output goes to stderr so it never mixes with `--output json` on stdout
+          stdio: ['ignore', process.stderr, process.stderr],
+          env: {
+            ...process.env,
+            FIRESTORE_RULES_PATH: target.firestoreRulesPath ?? '',
+            STORAGE_RULES_PATH: target.storageRulesPath ?? '',
+          },
+        }
+      );
+      child.on('error', (err: NodeJS.ErrnoException) => {
+        reject(err.code === 'ENOENT'
+          ? new Error('firebase CLI not found. Install it with `npm install -g firebase-tools`.')
+          : err);
+      });
+      child.on('close', (code) => resolve(code ?? 1));
+    });
+
+    return { environments: target.environments, passed: exitCode === 0, exitCode };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export function printRulesTestResults(results: RulesTestResult[]): void {
+  console.log('\n🧪 Security Rules Tests:');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const result of results) {
+    const icon = result.passed ? '✅' : '❌';
+    const outcome = result.passed ? 'passed' : `failed (exit code ${result.exitCode})`;
+    console.log(`  ${icon} ${result.environments.join(', ')}: ${outcome}`);
+  }
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
@@ -0,0 +1,363 @@
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import * as command from "@pulumi/command";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  GitHubSecretsConfig,
+  GitHubSecretsOutputs,
+  SecretValue,
+  githubValueName,
+  secretValues,
+  setupGitHubSecrets,
+} from "./github";
+import { projectPath } from "./paths";
+
+// ============================================================================
+// Sink configuration
+// ============================================================================
+
+export const SECRET_SINK_TYPES = ["github", "gitlab", "secretManager", "localFile"];
+
+/** GitHub Actions secrets and variables (see github.ts) */
+export interface GitHubSinkConfig {
+  type: "github";
+}
+
+/** GitLab CI/CD variables of one project */
+export interface GitLabSinkConfig {
+  type: "gitlab";
+  /** Project path, e.g. "mygroup/myapp" */
+  project: string;
+  /** GitLab instance; defaults to https://gitlab.com */
+  url?: string;
+  /** Only expose the variables to protected branches and tags */
+  protected?: boolean;
+  /** Unsuffixed names scoped to a GitLab environment of the same name, instead of `_<ENV>` names */
+  environmentScoped?: boolean;
+}
+
+/** Secret Manager secrets in each environment's project */
+export interface SecretManagerSinkConfig {
+  type: "secretManager";
+}
+
+/** A dotenv file encrypted with a passphrase, for local development */
+export interface LocalFileSinkConfig {
+  type: "localFile";
+  /** Relative to infrastructure/pulumi */
+  path: string;
+}
+
+export type SecretSinkConfig = GitHubSinkConfig | GitLabSinkConfig | SecretManagerSinkConfig | LocalFileSinkConfig;
+
+export const DEFAULT_SECRET_SINKS: SecretSinkConfig[] = [{ type: "github" }];
+
+export const DEFAULT_GITLAB_URL = "https://gitlab.com";
+
+// The local file is in the format of `openssl enc -aes-256-cbc -pbkdf2 -iter 100000`,
+// so openssl can decrypt it
+export const SECRETS_FILE_CIPHER = "aes-256-cbc";
+export const SECRETS_FILE_PBKDF2_ITERATIONS = 100000;
+
+// GitLab only masks values of at least 8 characters from this alphabet
+const GITLAB_MASKABLE_VALUE = /^[A-Za-z0-9+\/=@:.~_-]{8,}$/;
+
+// ============================================================================
+// Sinks
+// ============================================================================
+
+export interface SecretSinksConfig extends GitHubSecretsConfig {
+  sinks: SecretSinkConfig[];
+  /** Required by the gitlab sink */
+  gitlabToken?: pulumi.Output<string>;
+  /** Required by the localFile sink */
+  secretsFilePassphrase?: pulumi.Output<string>;
+}
+
+export interface SecretSinksOutputs {
+  github?: GitHubSecretsOutputs;
+  /** Variable names per GitLab environment scope ("*" for unscoped variables) */
+  gitlabVariables?: Record<string, string[]>;
+  /** Secret IDs per environment */
+  secretManagerSecrets?: Record<string, string[]>;
+  secretsFile?: string;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Creates or updates one GitLab CI/CD variable through the REST API. The value is passed
+ * on stdin, so it never shows up in a process listing. A different name, scope, project
+ * or instance replaces the resource, so the old variable is deleted.
+ */
+function setupGitLabVariable(
+  resourceName: string,
+  sink: GitLabSinkConfig,
+  token: pulumi.Output<string>,
+  name: string,
+  scope: string,
+  { kind, value }: SecretValue
+): command.local.Command {
+  const instance = (sink.url ?? DEFAULT_GITLAB_URL).replace(/\/$/, "");
+  const api = `${instance}/api/v4/projects/${encodeURIComponent(sink.project)}/variables`;
+  const variableUrl = `${api}/${name}?filter%5Benvironment_scope%5D=${encodeURIComponent(scope)}`;
+  const masked = pulumi.output(value).apply((v) => kind === "secret" && GITLAB_MASKABLE_VALUE.test(v));
+
+  // PUT updates an existing variable; POST creates it only when PUT finds nothing, so
+  // other failures (bad token, invalid value) are reported instead of retried
+  const upsert = pulumi.interpolate`VALUE=$(cat)
+upsert() {
+  printf '%s' "$VALUE" | curl --silent --show-error --output /dev/null --write-out '%{http_code}' -X "$1" \
+    -H "PRIVATE-TOKEN: $GITLAB_TOKEN" \
+    --data-urlencode value@- \
+    -d key=${name} -d environment_scope=${shellQuote(scope)} \
+    -d masked=${masked} -d protected=${sink.protected === true} -d raw=true \
+    "$2"
+}
+STATUS=$(upsert PUT ${shellQuote(variableUrl)})
+if [ "$STATUS" = 404 ]; then
+  STATUS=$(upsert POST ${shellQuote(api)})
+fi
+case "$STATUS" in
+  2??) ;;
+  *) echo "GitLab API returned HTTP $STATUS for ${name}" >&2; exit 1 ;;
+esac`;
+
+  // A variable that is already gone counts as deleted
+  const remove = `STATUS=$(curl --silent --show-error --output /dev/null --write-out '%{http_code}' -X DELETE \
+  -H "PRIVATE-TOKEN: $GITLAB_TOKEN" ${shellQuote(variableUrl)})
+case "$STATUS" in
+  2??|404) ;;
+  *) echo "GitLab API returned HTTP $STATUS deleting ${name}" >&2; exit 1 ;;
+esac`;
+
+  return new command.local.Command(resourceName, {
+    create: upsert,
+    update: upsert,
+    delete: remove,
+    stdin: value,
+    environment: { GITLAB_TOKEN: token },
+    triggers: [name, scope, sink.project, instance],
+  }, {
+    // Deleting the old variable afterwards could remove the new one if both are the same
+    deleteBeforeReplace: true,
+  });
+}
+
+function setupGitLabVariables(
+  sink: GitLabSinkConfig,
+  token: pulumi.Output<string>,
+  config: GitHubSecretsConfig
+): Record<string, string[]> {
+  const values = secretValues(config);
+  const variables: Record<string, string[]> = { "*": [] };
+
+  for (const env of config.environments) {
+    const scope = sink.environmentScoped ? env : "*";
+    variables[scope] = variables[scope] ?? [];
+    for (const secretValue of values.environments[env]) {
+      const name = githubValueName(config.nameTemplate, secretValue.name, sink.environmentScoped ? undefined : env);
+      setupGitLabVariable(`gitlab-variable-${secretValue.id}-${env}`, sink, token, name, scope, secretValue);
+      variables[scope].push(name);
+    }
+  }
+  for (const secretValue of values.shared) {
+    const name = githubValueName(config.nameTemplate, secretValue.name);
+    setupGitLabVariable(`gitlab-variable-${secretValue.id}`, sink, token, name, "*", secretValue);
+    variables["*"].push(name);
+  }
+
+  return variables;
+}
+
+/**
+ * Stores the secrets (not the variables) in each environment's project. The environment
+ * is implied by the project, so the IDs have no `_<ENV>` suffix; the shared signing
+ * secrets are copied into every project.
+ */
+function setupSecretManagerSecrets(config: GitHubSecretsConfig): Record<string, string[]> {
+  const values = secretValues(config);
+  const secretIds: Record<string, string[]> = {};
+
+  for (const env of config.environments) {
+    const { projectId: project, secretManagerApi } = config.firebaseEnvironments[env];
+    // Already enabled for the functions' secrets, or enabled here
+    const api = secretManagerApi ?? new gcp.projects.Service(`secret-manager-api-${env}`, {
+      project,
+      service: "secretmanager.googleapis.com",
+      disableOnDestroy: false,
+    });
+
+    secretIds[env] = [];
+    for (const { id, name, kind, value } of [...values.environments[env], ...values.shared]) {
+      if (kind !== "secret") {
+        continue;
+      }
+      const secretId = githubValueName(config.nameTemplate, name);
+      const secret = new gcp.secretmanager.Secret(
+        `secret-manager-${id}-${env}`,
+        {
+          project,
+          secretId,
+          replication: { auto: {} },
+        },
+        {
+          dependsOn: [api],
+        }
+      );
+      new gcp.secretmanager.SecretVersion(`secret-manager-${id}-${env}-version`, {
+        secret: secret.id,
+        secretData: value,
+      });
+      secretIds[env].push(secretId);
+    }
+  }
+
+  return secretIds;
+}
+
+/**
+ * Encrypts like `openssl enc -pbkdf2 -salt`: "Salted__", the salt, then the ciphertext,
+ * with the key and IV derived from the passphrase by PBKDF2-HMAC-SHA256.
+ */
+function encryptSecretsFile(contents: string, passphrase: string): Buffer {
+  const salt = crypto.randomBytes(8);
+  const derived = crypto.pbkdf2Sync(passphrase, salt, SECRETS_FILE_PBKDF2_ITERATIONS, 48, "sha256");
+  const cipher = crypto.createCipheriv(SECRETS_FILE_CIPHER, derived.subarray(0, 32), derived.subarray(32));
+  return Buffer.concat([Buffer.from("Salted__"), salt, cipher.update(contents, "utf8"), cipher.final()]);
+}
+
+interface SecretsFileInputs {
+  /** Absolute path */
+  path: string;
+  contents: string;
+  passphrase: string;
+}
+
+function writeEncryptedFile({ path: file, contents, passphrase }: SecretsFileInputs): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, encryptSecretsFile(contents, passphrase), { mode: 0o600 });
+}
+
+const secretsFileProvider: pulumi.dynamic.ResourceProvider = {
+  async create(inputs: SecretsFileInputs) {
+    writeEncryptedFile(inputs);
+    return { id: inputs.path, outs: inputs };
+  },
+
+  // A file deleted on disk is written again, since nothing else would notice
+  async diff(_id: string, olds: SecretsFileInputs, news: SecretsFileInputs) {
+    const replaces = olds.path !== news.path ? ["path"] : [];
+    const changes =
+      replaces.length > 0 ||
+      olds.contents !== news.contents ||
+      olds.passphrase !== news.passphrase ||
+      !fs.existsSync(news.path);
+    return { changes, replaces, deleteBeforeReplace: true };
+  },
+
+  async update(_id: string, _olds: SecretsFileInputs, news: SecretsFileInputs) {
+    writeEncryptedFile(news);
+    return { outs: news };
+  },
+
+  async delete(_id: string, props: Partial<SecretsFileInputs>) {
+    if (props.path) {
+      fs.rmSync(props.path, { force: true });
+    }
+  },
+};
+
+/**
+ * An encrypted file on the deploying machine. A new path moves the file; the old one is
+ * removed.
+ */
+class SecretsFile extends pulumi.dynamic.Resource {
+  constructor(
+    name: string,
+    args: { [K in keyof SecretsFileInputs]: pulumi.Input<SecretsFileInputs[K]> },
+    opts?: pulumi.CustomResourceOptions
+  ) {
+    super(secretsFileProvider, name, args, {
+      ...opts,
+      additionalSecretOutputs: ["contents", "passphrase"],
+    });
+  }
+}
+
+/**
+ * Writes every value as a dotenv file encrypted in the format of `openssl enc`, so it can
+ * be decrypted without this tooling. Values are single-quoted with shell escaping, so the
+ * decrypted file can also be sourced:
+ *
+ *   openssl enc -d -aes-256-cbc -pbkdf2 -iter 100000 -in <file> -pass env:SECRETS_FILE_PASSPHRASE
+ */
+function writeSecretsFile(
+  sink: LocalFileSinkConfig,
+  passphrase: pulumi.Output<string>,
+  config: GitHubSecretsConfig
+): string {
+  const values = secretValues(config);
+  const lines = [
+    ...config.environments.flatMap((env) =>
+      values.environments[env].map(({ name, value }) =>
+        pulumi.interpolate`${githubValueName(config.nameTemplate, name, env)}=${pulumi.output(value).apply(shellQuote)}`
+      )
+    ),
+    ...values.shared.map(({ name, value }) =>
+      pulumi.interpolate`${githubValueName(config.nameTemplate, name)}=${pulumi.output(value).apply(shellQuote)}`
+    ),
+  ];
+  const contents = pulumi.secret(pulumi.all(lines).apply((all) => `${all.join("\n")}\n`));
+
+  const file = projectPath(sink.path);
+  new SecretsFile(
+    "secrets-file",
+    { path: file, contents, passphrase },
+    {
+      // Written by an openssl command before; that one's delete (rm -f) runs first, so it
+      // can't remove the new file
+      aliases: [{ type: "command:local:Command" }],
+      deleteBeforeReplace: true,
+    }
+  );
+
+  return file;
+}
+
+/**
+ * Publishes the same values to every configured sink.
+ */
+export function setupSecretSinks(config: SecretSinksConfig): SecretSinksOutputs {
+  const { sinks, gitlabToken, secretsFilePassphrase } = config;
+  const outputs: SecretSinksOutputs = {};
+
+  for (const sink of sinks) {
+    switch (sink.type) {
+      case "github":
+        outputs.github = setupGitHubSecrets(config);
+        break;
+      case "gitlab":
+        if (!gitlabToken) {
+          throw new Error("The gitlab secret sink needs a GitLab token (gitlabToken)");
+        }
+        outputs.gitlabVariables = setupGitLabVariables(sink, gitlabToken, config);
+        break;
+      case "secretManager":
+        outputs.secretManagerSecrets = setupSecretManagerSecrets(config);
+        break;
+      case "localFile":
+        if (!secretsFilePassphrase) {
+          throw new Error("The localFile secret sink needs a passphrase (secretsFilePassphrase)");
+        }
+        outputs.secretsFile = writeSecretsFile(sink, secretsFilePassphrase, config);
+        break;
+    }
+  }
+
+  return outputs;
+}
@@ -0,0 +1,171 @@
+import { Stack } from '@pulumi/pulumi/automation';
+import { PREVIOUS_KEYSTORES_CONFIG_KEY } from './android';
+import { DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY } from './storage';
+import {
+  ChangeGroupingOptions,
+  SHARED_GROUP,
+  environmentForResource,
+  resourceNameFromUrn,
+} from './diff';
+
+export interface StackResource {
+  urn: string;
+  type: string;
+  name: string;
+  environment: string;
+  protected: boolean;
+}
+
+interface StateResource {
+  urn: string;
+  type: string;
+  protect?: boolean;
+  outputs?: Record<string, unknown>;
+}
+
+function isManagedResource(type: string): boolean {
+  return type !== 'pulumi:pulumi:Stack' && !type.startsWith('pulumi:providers:');
+}
+
+/**
+ * Lists the resources recorded in the stack state, grouped by environment.
+ */
+export async function readStackResources(stack: Stack, grouping: ChangeGroupingOptions): Promise<StackResource[]> {
+  const { deployment } = await stack.exportStack();
+  const resources: StateResource[] = deployment?.resources ?? [];
+
+  return resources
+    .filter(r => isManagedResource(r.type))
+    .map(r => {
+      const name = resourceNameFromUrn(r.urn);
+      return {
+        urn: r.urn,
+        type: r.type,
+        name,
+        environment: environmentForResource(name, grouping),
+        protected: r.protect === true,
+      };
+    });
+}
+
+/**
+ * Clears the `protect` flag on the given resources in the stack state (the equivalent of
+ * `pulumi state unprotect`), so they can be destroyed. The program still declares them
+ * protected, so the next deploy protects anything that is recreated.
+ */
+export async function unprotectResources(stack: Stack, urns: string[]): Promise<void> {
+  const state = await stack.exportStack();
+  for (const resource of (state.deployment?.resources ?? []) as StateResource[]) {
+    if (urns.includes(resource.urn)) {
+      resource.protect = false;
+    }
+  }
+  await stack.importStack(state);
+}
+
+export interface PreviousKeystores {
+  /** Base64 keystore by key alias */
+  keystores: Record<string, string>;
+  /** Aliases whose keystore is encrypted in the state, so it can't be read here */
+  unreadable: string[];
+}
+
+/**
+ * Finds keystores keytool generated before they were built in memory: the output of the
+ * old `<alias>-keystore-base64` commands, for aliases without a `<alias>-keystore`
+ * resource yet. The commands go away on the first deploy that adopts them.
+ */
+export async function readPreviousKeystores(stack: Stack): Promise<PreviousKeystores> {
+  const { deployment } = await stack.exportStack();
+  const resources: StateResource[] = deployment?.resources ?? [];
+  const names = new Set(resources.map(r => resourceNameFromUrn(r.urn)));
+  const result: PreviousKeystores = { keystores: {}, unreadable: [] };
+
+  for (const resource of resources) {
+    const name = resourceNameFromUrn(resource.urn);
+    if (resource.type !== 'command:local:Command' || !name.endsWith('-keystore-base64')) {
+      continue;
+    }
+    const keyAlias = name.slice(0, -'-keystore-base64'.length);
+    if (names.has(`${keyAlias}-keystore`)) {
+      continue;
+    }
+    const stdout = resource.outputs?.stdout;
+    if (typeof stdout === 'string' && stdout.trim()) {
+      result.keystores[keyAlias] = stdout.replace(/\s/g, '');
+    } else {
+      result.unreadable.push(keyAlias);
+    }
+  }
+
+  return result;
+}
+
+/** Stores an object in the stack config for the program, or removes the key when empty */
+async function writeConfigObject(
+  stack: Stack,
+  key: string,
+  value: Record<string, string>,
+  secret: boolean
+): Promise<void> {
+  if (Object.keys(value).length > 0) {
+    await stack.setConfig(key, { value: JSON.stringify(value), secret });
+  } else if (key in (await stack.getAllConfig())) {
+    await stack.removeConfig(key);
+  }
+}
+
+/**
+ * Hands the keystores to the program as a secret stack config value, or removes it once
+ * there is nothing left to adopt.
+ */
+export async function writePreviousKeystores(
+  stack: Stack,
+  project: string,
+  keystores: Record<string, string>
+): Promise<void> {
+  await writeConfigObject(stack, `${project}:${PREVIOUS_KEYSTORES_CONFIG_KEY}`, keystores, true);
+}
+
+/**
+ * Locations of the default buckets (`<project>-storage`) in the state, by project, so
+ * they are kept when the default location changes.
+ */
+export async function readDefaultBucketLocations(stack: Stack): Promise<Record<string, string>> {
+  const { deployment } = await stack.exportStack();
+  const resources: StateResource[] = deployment?.resources ?? [];
+  const locations: Record<string, string> = {};
+
+  for (const resource of resources) {
+    const name = resourceNameFromUrn(resource.urn);
+    const location = resource.outputs?.location;
+    if (resource.type === 'gcp:storage/bucket:Bucket' && name.endsWith('-storage') && typeof location === 'string') {
+      locations[name.slice(0, -'-storage'.length)] = location;
+    }
+  }
+
+  return locations;
+}
+
+export async function writeDefaultBucketLocations(
+  stack: Stack,
+  project: string,
+  locations: Record<string, string>
+): Promise<void> {
+  await writeConfigObject(stack, `${project}:${DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY}`, locations, false);
+}
+
+export function printStackResources(resources: StackResource[], environments: string[]): void {
+  for (const group of [...environments, SHARED_GROUP]) {
+    const inGroup = resources.filter(r => r.environment === group);
+    if (inGroup.length === 0) {
+      continue;
+    }
+
+    const title = group === SHARED_GROUP ? 'Shared resources' : `Environment: ${group.toUpperCase()}`;
+    console.log(`\n  📦 ${title}`);
+    for (const resource of inGroup) {
+      console.log(`     └─ ➖ ${resource.type} ${resource.name}${resource.protected ? '  🔒 PROTECTED' : ''}`);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+
+// ============================================================================
+// Storage options
+// ============================================================================
+
+export const CORS_METHODS = ["GET", "HEAD", "PUT", "POST", "DELETE", "OPTIONS"];
+
+export const STORAGE_CLASSES = ["NEARLINE", "COLDLINE", "ARCHIVE"];
+
+// Soft delete retention must be 0 (disabled) or between 7 and 90 days
+export const MIN_SOFT_DELETE_RETENTION_DAYS = 7;
+export const MAX_SOFT_DELETE_RETENTION_DAYS = 90;
+
+export interface StorageCorsRule {
+  origins: string[];
+  methods: string[];
+  responseHeaders?: string[];
+  maxAgeSeconds?: number;
+}
+
+export interface StorageLifecycleRule {
+  /** "Delete" removes matching objects, "SetStorageClass" moves them to `storageClass` */
+  action: "Delete" | "SetStorageClass";
+  storageClass?: string;
+  ageDays: number;
+  /** Only objects under these prefixes, e.g. ["tmp/"] */
+  prefixes?: string[];
+}
+
+export interface StorageBucketOptions {
+  /**
+   * Bucket location; the default bucket defaults to `EU`, additional buckets to the
+   * location matching the Firestore region
+   */
+  location?: string;
+  cors?: StorageCorsRule[];
+  versioning?: boolean;
+  lifecycleRules?: StorageLifecycleRule[];
+  /** 0 disables soft delete */
+  softDeleteRetentionDays?: number;
+}
+
+export interface NamedStorageBucket extends StorageBucketOptions {
+  /** Bucket name suffix: the bucket is created as `<project>-<name>` */
+  name: string;
+  /** Link the bucket to Firebase and apply the Storage rules (default true) */
+  firebase?: boolean;
+}
+
+/** Options for the default `<project>.appspot.com` bucket, plus any additional buckets. */
+export interface StorageConfig extends StorageBucketOptions {
+  buckets?: NamedStorageBucket[];
+}
+
+// Stack config key the CLI keeps the locations of existing default buckets under, by
+// project. They were all created in EU before the location followed the Firestore region,
+// and a bucket's location can't change
+export const DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY = "defaultBucketLocations";
+
+// Read-only access from browsers; uploads go through the Firebase SDK, which doesn't
+// need bucket CORS
+export const DEFAULT_STORAGE_CORS: StorageCorsRule[] = [
+  { origins: ["*"], methods: ["GET", "HEAD"] },
+];
+
+/**
+ * Cloud Storage location for a Firestore location. The Firestore multi-regions have no
+ * bucket equivalent, so they map to the Cloud Storage multi-region on the same continent.
+ */
+export function storageLocationForFirestoreRegion(firestoreRegion: string): string {
+  if (firestoreRegion === "eur3") {
+    return "EU";
+  }
+  if (firestoreRegion.startsWith("nam")) {
+    return "US";
+  }
+  return firestoreRegion;
+}
+
+// ============================================================================
+// Buckets
+// ============================================================================
+
+export interface StorageBucketsConfig {
+  projectName: string;
+  project: pulumi.Input<string>;
+  firestoreRegion: string;
+  storage: StorageConfig;
+  /** Location of the default bucket if it already exists (see DEFAULT_BUCKET_LOCATIONS_CONFIG_KEY) */
+  existingDefaultBucketLocation?: string;
+  dependsOn: pulumi.Resource[];
+}
+
+export interface StorageBucketsOutputs {
+  defaultBucket: gcp.storage.Bucket;
+  /** Buckets Firebase Storage rules apply to; the default bucket has an empty suffix */
+  firebaseBuckets: { resourceSuffix: string; bucket: gcp.storage.Bucket }[];
+  bucketNames: pulumi.Output<string>[];
+}
+
+function bucketArgs(
+  project: pulumi.Input<string>,
+  name: string,
+  location: string,
+  options: StorageBucketOptions
+): gcp.storage.BucketArgs {
+  return {
+    project,
+    name,
+    location,
+    uniformBucketLevelAccess: true,
+    cors: (options.cors ?? []).map((rule) => ({
+      origins: rule.origins,
+      methods: rule.methods,
+      responseHeaders: rule.responseHeaders ?? ["Content-Type"],
+      maxAgeSeconds: rule.maxAgeSeconds ?? 3600,
+    })),
+    versioning: { enabled: options.versioning === true },
+    lifecycleRules: (options.lifecycleRules ?? []).map((rule) => ({
+      action: { type: rule.action, storageClass: rule.storageClass },
+      condition: { age: rule.ageDays, matchesPrefixes: rule.prefixes },
+    })),
+    softDeletePolicy: options.softDeleteRetentionDays !== undefined
+      ? { retentionDurationSeconds: options.softDeleteRetentionDays * 24 * 60 * 60 }
+      : undefined,
+  };
+}
+
+export function setupStorageBuckets(config: StorageBucketsConfig): StorageBucketsOutputs {
+  const { projectName, project, firestoreRegion, storage, existingDefaultBucketLocation, dependsOn } = config;
+  const location = storage.location ?? storageLocationForFirestoreRegion(firestoreRegion);
+
+  const defaultBucket = new gcp.storage.Bucket(
+    `${projectName}-storage`,
+    bucketArgs(project, `${projectName}.appspot.com`, storage.location ?? existingDefaultBucketLocation ?? location, {
+      ...storage,
+      cors: storage.cors ?? DEFAULT_STORAGE_CORS,
+    }),
+    {
+      dependsOn,
+    }
+  );
+
+  const firebaseBuckets = [{ resourceSuffix: "", bucket: defaultBucket }];
+  const bucketNames = [defaultBucket.name];
+
+  for (const named of storage.buckets ?? []) {
+    const bucket = new gcp.storage.Bucket(
+      `${projectName}-storage-${named.name}`,
+      bucketArgs(project, `${projectName}-${named.name}`, named.location ?? location, named),
+      {
+        dependsOn,
+      }
+    );
+    bucketNames.push(bucket.name);
+    if (named.firebase !== false) {
+      firebaseBuckets.push({ resourceSuffix: `-${named.name}`, bucket });
+    }
+  }
+
+  return { defaultBucket, firebaseBuckets, bucketNames };
+}
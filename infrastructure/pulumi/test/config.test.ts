@@ -0,0 +1,130 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as os from "os";
+import { DeployOptions, ValidationIssue, assertValidDeployOptions, validateDeployOptions } from "../config";
+
+const BASE: DeployOptions = {
+  projectBaseName: "my-app",
+  organization: "My Company",
+  environments: ["dev", "prod"],
+  githubRepo: "me/my-app",
+  androidPackageName: "com.mycompany.myapp",
+  iosBundleId: "com.mycompany.myapp",
+};
+
+function issuePaths(issues: ValidationIssue[]): string[] {
+  return issues.map((issue) => issue.path);
+}
+
+describe("validateDeployOptions", () => {
+  test("accepts a minimal configuration", () => {
+    assert.deepEqual(validateDeployOptions(BASE), []);
+  });
+
+  test("rejects anything but an object", () => {
+    for (const input of [null, [], "config", 42]) {
+      assert.deepEqual(issuePaths(validateDeployOptions(input)), [""]);
+    }
+  });
+
+  test("reports every missing required key", () => {
+    assert.deepEqual(issuePaths(validateDeployOptions({})), [
+      "projectBaseName",
+      "organization",
+      "githubRepo",
+      "androidPackageName",
+      "iosBundleId",
+      "environments",
+    ]);
+  });
+
+  test("reports every problem at once with its field path", () => {
+    const issues = validateDeployOptions({
+      ...BASE,
+      bogus: true,
+      environments: ["dev", "dev"],
+      githubRepo: "my-app",
+      firestoreRegion: "mars",
+      firestoreRulesPath: "rules/missing.rules",
+    });
+
+    assert.deepEqual(issues, [
+      { path: "bogus", message: "unknown configuration key" },
+      { path: "environments[1]", message: 'duplicate environment "dev"' },
+      { path: "githubRepo", message: '"my-app" must be in owner/repo format' },
+      { path: "firestoreRegion", message: 'unknown Firestore location "mars"' },
+      {
+        path: "firestoreRulesPath",
+        message: 'rules file "rules/missing.rules" not found (paths are relative to the Pulumi project directory)',
+      },
+    ]);
+  });
+
+  test("checks per-environment overrides", () => {
+    const issues = validateDeployOptions({
+      ...BASE,
+      environments: ["dev", { name: "prod", firestoreRegion: "mars", storageRulesPath: "rules/missing.rules" }],
+    });
+
+    assert.deepEqual(issuePaths(issues), ["environments[1].firestoreRegion", "environments[1].storageRulesPath"]);
+  });
+
+  test("resolves file paths against the Pulumi project directory, not the current directory", () => {
+    const options = {
+      ...BASE,
+      firestoreRulesPath: "rules/firestore.rules",
+      androidSigning: { import: { keystorePath: "test/fixtures/openssl.p12", keyAlias: "upload" } },
+      androidKeystorePassword: "changeit",
+    };
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    try {
+      assert.deepEqual(validateDeployOptions(options), []);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  test("requires the settings and secrets each secret sink needs", () => {
+    const issues = validateDeployOptions({
+      ...BASE,
+      secretSinks: [{ type: "gitlab" }, { type: "localFile", path: "" }, { type: "dropbox" }],
+    });
+
+    assert.deepEqual(issuePaths(issues), [
+      "secretSinks[0].project",
+      "gitlabToken",
+      "secretSinks[1].path",
+      "secretsFilePassphrase",
+      "secretSinks[2].type",
+    ]);
+  });
+
+  test("accepts complete secret sinks", () => {
+    const issues = validateDeployOptions({
+      ...BASE,
+      secretSinks: [
+        { type: "github" },
+        { type: "gitlab", project: "mygroup/myapp", url: "https://gitlab.example.com", environmentScoped: true },
+        { type: "localFile", path: "../../secrets.env.enc" },
+      ],
+      gitlabToken: "glpat-token",
+      secretsFilePassphrase: "passphrase",
+    });
+
+    assert.deepEqual(issues, []);
+  });
+});
+
+describe("assertValidDeployOptions", () => {
+  test("throws with every issue", () => {
+    assert.throws(
+      () => assertValidDeployOptions({ ...BASE, githubRepo: "my-app", firestoreRegion: "mars" }),
+      (error: Error) => error.message.includes("githubRepo") && error.message.includes("firestoreRegion")
+    );
+  });
+
+  test("returns valid options as they are", () => {
+    assert.deepEqual(assertValidDeployOptions(BASE), BASE);
+  });
+});
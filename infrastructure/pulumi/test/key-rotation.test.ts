@@ -0,0 +1,108 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { FirebaseEnvironmentConfig } from '../firebase';
+import type { KeyRotationConfig, KeyRotationState } from '../iam';
+import { planKeyRotation } from '../key-rotation';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// planKeyRotation only reads these fields
+function environment(
+  name: string,
+  keyRotation: KeyRotationConfig = { rotationDays: 90 },
+  workloadIdentity = false
+): FirebaseEnvironmentConfig {
+  return { environment: name, keyRotation, workloadIdentity: { enabled: workloadIdentity } } as FirebaseEnvironmentConfig;
+}
+
+describe('planKeyRotation', () => {
+  test('tracks a new environment from now', () => {
+    const plan = planKeyRotation([environment('dev')], {}, NOW);
+
+    assert.deepEqual(plan.state, { dev: { generation: 0, createdAt: NOW.toISOString() } });
+    assert.deepEqual(plan.changes.map(c => c.action), ['track']);
+  });
+
+  test('keeps a key younger than rotationDays', () => {
+    const current = { dev: { generation: 2, createdAt: daysAgo(89) } };
+    const plan = planKeyRotation([environment('dev')], current, NOW);
+
+    assert.deepEqual(plan.state, current);
+    assert.deepEqual(plan.changes, []);
+  });
+
+  test('rotates a key past rotationDays and keeps the old one for overlapDays', () => {
+    const current = { dev: { generation: 2, createdAt: daysAgo(90) } };
+    const plan = planKeyRotation([environment('dev', { rotationDays: 90, overlapDays: 3 })], current, NOW);
+
+    assert.deepEqual(plan.state.dev, {
+      generation: 3,
+      createdAt: NOW.toISOString(),
+      previousGeneration: 2,
+      previousExpiresAt: new Date(NOW.getTime() + 3 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    assert.deepEqual(plan.changes, [
+      { environment: 'dev', action: 'rotate', generation: 3, reason: 'older than 90 days' },
+    ]);
+  });
+
+  test('defaults the overlap window to 7 days', () => {
+    const plan = planKeyRotation([environment('dev')], { dev: { generation: 0, createdAt: daysAgo(100) } }, NOW);
+
+    assert.equal(plan.state.dev.previousExpiresAt, new Date(NOW.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString());
+  });
+
+  test('never rotates without rotationDays unless forced', () => {
+    const current = { dev: { generation: 0, createdAt: daysAgo(1000) } };
+
+    assert.deepEqual(planKeyRotation([environment('dev', {})], current, NOW).changes, []);
+
+    const forced = planKeyRotation([environment('dev', {})], current, NOW, ['dev']);
+    assert.equal(forced.state.dev.generation, 1);
+    assert.deepEqual(forced.changes.map(c => [c.action, c.reason]), [['rotate', 'forced']]);
+  });
+
+  test('a forced rotation during an overlap window skips past the previous generation', () => {
+    const current: Record<string, KeyRotationState> = {
+      dev: { generation: 3, createdAt: daysAgo(1), previousGeneration: 2, previousExpiresAt: daysAgo(-6) },
+    };
+    const plan = planKeyRotation([environment('dev')], current, NOW, ['dev']);
+
+    assert.equal(plan.state.dev.generation, 4);
+    assert.equal(plan.state.dev.previousGeneration, 3);
+  });
+
+  test('drops the previous key once its overlap window is over', () => {
+    const current: Record<string, KeyRotationState> = {
+      dev: { generation: 3, createdAt: daysAgo(10), previousGeneration: 2, previousExpiresAt: daysAgo(0) },
+    };
+    const plan = planKeyRotation([environment('dev')], current, NOW);
+
+    assert.deepEqual(plan.state.dev, { generation: 3, createdAt: daysAgo(10) });
+    assert.deepEqual(plan.changes, [
+      { environment: 'dev', action: 'expire-previous', generation: 2, reason: 'overlap window over' },
+    ]);
+  });
+
+  test('removes the state of environments that switched to Workload Identity Federation', () => {
+    const current = { dev: { generation: 1, createdAt: daysAgo(10) }, prod: { generation: 0, createdAt: daysAgo(10) } };
+    const plan = planKeyRotation([environment('dev', {}, true), environment('prod')], current, NOW);
+
+    assert.deepEqual(Object.keys(plan.state), ['prod']);
+    assert.deepEqual(plan.changes, [
+      { environment: 'dev', action: 'remove', generation: 1, reason: 'keyless auth enabled' },
+    ]);
+  });
+
+  test('does not modify the current state', () => {
+    const current = { dev: { generation: 0, createdAt: daysAgo(100) } };
+    const copy = structuredClone(current);
+    planKeyRotation([environment('dev')], current, NOW);
+
+    assert.deepEqual(current, copy);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { KeystoreSettings, adoptKeystore, createKeystore, readKeystoreCertificate } from "../keystore";
+
+const FIXTURES = path.join(__dirname, "fixtures");
+
+function settings(overrides: Partial<KeystoreSettings> = {}): KeystoreSettings {
+  return {
+    storeType: "PKCS12",
+    keyAlias: "upload",
+    keyAlgorithm: "RSA",
+    keySize: 2048,
+    validity: 10950,
+    subject: {
+      commonName: "my-app",
+      organizationalUnit: "Mobile",
+      organization: "My Company GmbH",
+      locality: "Berlin",
+      state: "Berlin",
+      country: "DE",
+    },
+    keystorePassword: "store-password",
+    keyPassword: "key-password",
+    ...overrides,
+  };
+}
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name)).toString("base64");
+}
+
+describe("createKeystore", () => {
+  for (const storeType of ["PKCS12", "JKS"] as const) {
+    for (const [keyAlgorithm, keySize] of [["RSA", 2048], ["EC", 256], ["EC", 384], ["EC", 521]] as const) {
+      test(`${storeType} with ${keyAlgorithm} ${keySize} reads back and is adopted as it is`, () => {
+        const keySettings = settings({ storeType, keyAlgorithm, keySize, keyAlias: "MyApp-Upload" });
+        const created = createKeystore(keySettings);
+
+        const certificate = readKeystoreCertificate(
+          Buffer.from(created.keystoreBase64, "base64"),
+          keySettings.keyAlias,
+          keySettings.keystorePassword
+        );
+        assert.equal(certificate.fingerprint256, created.sha256Fingerprint);
+        // In DER order, which keytool's "CN=..., C=..." also encodes country first
+        assert.equal(certificate.subject, "C=DE\nST=Berlin\nL=Berlin\nO=My Company GmbH\nOU=Mobile\nCN=my-app");
+        assert.equal(certificate.publicKey.asymmetricKeyType, keyAlgorithm.toLowerCase());
+        assert.ok(certificate.verify(certificate.publicKey), "self-signed");
+
+        assert.deepEqual(adoptKeystore(created.keystoreBase64, keySettings), created);
+      });
+    }
+  }
+
+  test("rejects the wrong keystore password and an unknown alias", () => {
+    for (const storeType of ["PKCS12", "JKS"] as const) {
+      const keySettings = settings({ storeType, keyAlgorithm: "EC", keySize: 256 });
+      const { keystoreBase64 } = createKeystore(keySettings);
+
+      assert.throws(() => adoptKeystore(keystoreBase64, { ...keySettings, keystorePassword: "wrong" }), /password/i);
+      assert.throws(() => adoptKeystore(keystoreBase64, { ...keySettings, keyAlias: "other" }), /other/);
+    }
+  });
+});
+
+describe("adoptKeystore", () => {
+  // Fingerprints from `openssl x509 -fingerprint` on the certificates the fixtures hold
+  const cases = [
+    {
+      name: "a JKS keystore made by keytool",
+      file: "keytool.jks",
+      keyAlias: "jks-js",
+      keystorePassword: "password",
+      sha1: "36:E8:BA:09:74:CC:06:1C:E1:41:D2:C7:39:E8:0E:B7:59:C4:0E:59",
+      sha256: "38:1A:16:4F:D1:C8:B6:C5:82:A1:54:BC:2A:05:6E:C9:69:78:BA:5F:46:71:91:0C:70:0A:CB:C7:85:3C:CD:62",
+    },
+    {
+      name: "a legacy PKCS12 keystore (RC2-40 and 3DES, SHA-1 MAC)",
+      file: "openssl-legacy.p12",
+      keyAlias: "upload",
+      keystorePassword: "changeit",
+      sha1: "29:61:43:01:75:2E:8B:8A:87:38:30:4E:72:0A:84:1F:46:8C:99:97",
+      sha256: "3A:20:3B:61:E7:15:41:1D:16:6A:51:58:4A:7C:22:A4:F4:24:0D:5B:68:D9:15:3B:92:9F:FC:C2:78:A5:91:43",
+    },
+    {
+      name: "a PKCS12 keystore with PBES2 (AES-256, SHA-256 MAC)",
+      file: "openssl.p12",
+      keyAlias: "upload",
+      keystorePassword: "changeit",
+      sha1: "C3:A2:22:0E:74:0D:EF:FE:8B:37:3A:40:9C:3F:58:E1:A4:D0:F0:C2",
+      sha256: "B0:F5:D8:25:C8:1C:48:97:B8:88:D9:D8:19:18:54:C6:D7:A4:1D:6C:FA:2F:6E:32:E2:96:75:CA:22:D7:B7:82",
+    },
+  ];
+
+  for (const { name, file, keyAlias, keystorePassword, sha1, sha256 } of cases) {
+    test(`reads ${name}`, () => {
+      const keySettings = settings({ keyAlias, keystorePassword, keyPassword: keystorePassword });
+      const adopted = adoptKeystore(fixture(file), keySettings);
+
+      assert.equal(adopted.sha1Fingerprint, sha1);
+      assert.equal(adopted.sha256Fingerprint, sha256);
+      assert.equal(adopted.keystoreBase64, fixture(file));
+    });
+
+    test(`rejects ${name} with the wrong password or alias`, () => {
+      const keySettings = settings({ keyAlias, keystorePassword, keyPassword: keystorePassword });
+      assert.throws(() => adoptKeystore(fixture(file), { ...keySettings, keystorePassword: "wrong" }), /password/i);
+      assert.throws(() => adoptKeystore(fixture(file), { ...keySettings, keyAlias: "other" }), /other/);
+    });
+  }
+
+  test("rejects JCEKS keystores", () => {
+    const jceks = Buffer.concat([Buffer.from([0xce, 0xce, 0xce, 0xce]), Buffer.alloc(32)]);
+    assert.throws(() => adoptKeystore(jceks.toString("base64"), settings()), /JCEKS/);
+  });
+});